@@ -5,6 +5,13 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import RecitePage from "./pages/RecitePage";
+import SettingsPage from "./pages/SettingsPage";
+import ReviewPage from "./pages/ReviewPage";
+import HistoryPage from "./pages/HistoryPage";
+import SessionReportPage from "./pages/SessionReportPage";
+import StatsPage from "./pages/StatsPage";
+import MistakesPage from "./pages/MistakesPage";
+import QuizPage from "./pages/QuizPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,7 +24,18 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
-          <Route path="/recite/:surahNumber" element={<RecitePage />} />
+          <Route path="/recite/:surahNumber/:range?" element={<RecitePage />} />
+          <Route path="/page/:number" element={<RecitePage kind="page" />} />
+          <Route path="/juz/:number" element={<RecitePage kind="juz" />} />
+          <Route path="/hizb/:number" element={<RecitePage kind="hizb" />} />
+          <Route path="/ruku/:number" element={<RecitePage kind="ruku" />} />
+          <Route path="/review" element={<ReviewPage />} />
+          <Route path="/history" element={<HistoryPage />} />
+          <Route path="/history/:sessionId" element={<SessionReportPage />} />
+          <Route path="/stats" element={<StatsPage />} />
+          <Route path="/mistakes" element={<MistakesPage />} />
+          <Route path="/quiz" element={<QuizPage />} />
+          <Route path="/settings" element={<SettingsPage />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -18,19 +18,35 @@ export function AyahDisplay({ ayahText, wordResults, ayahNumber }: AyahDisplayPr
           </span>
         </div>
         <p className="font-arabic text-2xl md:text-3xl leading-loose text-right" dir="rtl">
-          {wordResults.map((result, index) => (
-            <span
-              key={index}
-              className={cn(
-                'mx-1 px-1 rounded transition-colors',
-                result.isCorrect
-                  ? 'text-success bg-success/10'
-                  : 'text-destructive bg-destructive/10'
-              )}
-            >
-              {result.originalExpected || result.expected || result.word}
-            </span>
-          ))}
+          {wordResults.map((result, index) => {
+            // Extra word the user said that is not in the ayah
+            if (result.kind === 'insertion') {
+              return (
+                <span
+                  key={index}
+                  className="mx-1 px-1 rounded text-base align-middle text-muted-foreground bg-muted line-through"
+                  title="Kata tambahan"
+                >
+                  {result.word}
+                </span>
+              );
+            }
+
+            return (
+              <span
+                key={index}
+                className={cn(
+                  'mx-1 px-1 rounded transition-colors',
+                  result.kind === 'match' && 'text-success bg-success/10',
+                  result.kind === 'substitution' && 'text-destructive bg-destructive/10',
+                  result.kind === 'omission' && 'text-amber-500 bg-amber-500/10 border border-dashed border-amber-500/50'
+                )}
+                title={result.kind === 'omission' ? 'Kata terlewat' : undefined}
+              >
+                {result.originalExpected || result.expected || result.word}
+              </span>
+            );
+          })}
         </p>
       </div>
     );
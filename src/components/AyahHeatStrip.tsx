@@ -0,0 +1,63 @@
+import { AyahProgress, MASTERY_LABELS, MasteryLevel, ayahKey } from '@/lib/ayah-progress';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+interface AyahHeatStripProps {
+  ayahs: { surahNumber: number; ayahNumber: number }[];
+  progress: Map<string, AyahProgress>;
+}
+
+const MASTERY_COLORS: Record<MasteryLevel, string> = {
+  0: 'bg-destructive/60',
+  1: 'bg-amber-500/60',
+  2: 'bg-amber-400',
+  3: 'bg-success/40',
+  4: 'bg-success/70',
+  5: 'bg-success',
+};
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+// One cell per ayah, coloured by mastery; grey for ayahs never recited
+export function AyahHeatStrip({ ayahs, progress }: AyahHeatStripProps) {
+  return (
+    <TooltipProvider delayDuration={100}>
+      <div className="flex flex-wrap gap-0.5 justify-center" dir="rtl">
+        {ayahs.map(({ surahNumber, ayahNumber }) => {
+          const key = ayahKey(surahNumber, ayahNumber);
+          const entry = progress.get(key);
+
+          return (
+            <Tooltip key={key}>
+              <TooltipTrigger asChild>
+                <span
+                  className={cn(
+                    'h-3 min-w-[6px] flex-1 max-w-[16px] rounded-sm',
+                    entry ? MASTERY_COLORS[entry.mastery] : 'bg-muted'
+                  )}
+                />
+              </TooltipTrigger>
+              <TooltipContent className="text-xs">
+                <p className="font-semibold">Ayat {surahNumber}:{ayahNumber}</p>
+                {entry ? (
+                  <>
+                    <p>{MASTERY_LABELS[entry.mastery]} · {entry.attempts}x dibaca</p>
+                    <p>
+                      {entry.lastWordsMissed} kata terlewat
+                      {entry.lastWordsHinted > 0 && ` · ${entry.lastWordsHinted} dibantu`}
+                      {' · '}{formatDate(entry.lastRecitedAt)}
+                    </p>
+                  </>
+                ) : (
+                  <p>Belum pernah dibaca</p>
+                )}
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+    </TooltipProvider>
+  );
+}
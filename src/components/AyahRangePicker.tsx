@@ -0,0 +1,81 @@
+import { useState, ReactNode } from 'react';
+import { AyahRange, normalizeAyahRange } from '@/lib/ayah-range';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface AyahRangePickerProps {
+  numberOfAyahs: number;
+  value?: AyahRange;
+  onSelect: (range: AyahRange) => void;
+  disabled?: boolean;
+  children: ReactNode;
+}
+
+export function AyahRangePicker({ numberOfAyahs, value, onSelect, disabled, children }: AyahRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState(String(value?.from ?? 1));
+  const [to, setTo] = useState(String(value?.to ?? numberOfAyahs));
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFrom(String(value?.from ?? 1));
+      setTo(String(value?.to ?? numberOfAyahs));
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleApply = () => {
+    onSelect(normalizeAyahRange({ from: Number(from), to: Number(to) }, numberOfAyahs));
+    setOpen(false);
+  };
+
+  const handleWholeSurah = () => {
+    onSelect({ from: 1, to: numberOfAyahs });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild disabled={disabled}>
+        {children}
+      </PopoverTrigger>
+      <PopoverContent className="w-64" onClick={(e) => e.stopPropagation()}>
+        <p className="font-semibold text-foreground mb-3">Pilih Ayat</p>
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div className="space-y-1">
+            <Label htmlFor="range-from" className="text-xs">Dari ayat</Label>
+            <Input
+              id="range-from"
+              type="number"
+              min={1}
+              max={numberOfAyahs}
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="range-to" className="text-xs">Sampai ayat</Label>
+            <Input
+              id="range-to"
+              type="number"
+              min={1}
+              max={numberOfAyahs}
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" className="flex-1" onClick={handleApply}>
+            Mulai
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleWholeSurah}>
+            Semua
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { clearOfflineCache } from '@/lib/quran-cache';
+import {
+  QuranProviderConfig,
+  QuranProviderId,
+  loadProviderConfig,
+  saveProviderConfig,
+} from '@/lib/quran-providers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const PROVIDER_OPTIONS: { id: QuranProviderId; label: string; urlPlaceholder: string }[] = [
+  { id: 'alquran-cloud', label: 'alquran.cloud', urlPlaceholder: 'https://api.alquran.cloud/v1' },
+  { id: 'local-bundle', label: 'File JSON lokal', urlPlaceholder: '/quran.json' },
+  { id: 'self-hosted', label: 'Server sendiri', urlPlaceholder: 'https://quran.example.org/api' },
+];
+
+export function DataSourceCard() {
+  const [config, setConfig] = useState<QuranProviderConfig>(loadProviderConfig);
+  const [saved, setSaved] = useState(false);
+
+  const option = PROVIDER_OPTIONS.find(o => o.id === config.id) ?? PROVIDER_OPTIONS[0];
+  const needsUrl = config.id === 'self-hosted';
+
+  // Text from another source may differ, so the offline cache is cleared on change
+  const handleSave = async () => {
+    saveProviderConfig({ id: config.id, baseUrl: config.baseUrl?.trim() || undefined });
+    await clearOfflineCache().catch(() => undefined);
+    setSaved(true);
+  };
+
+  return (
+    <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+      <h2 className="text-lg font-semibold text-foreground mb-1">Sumber Data</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Pilih dari mana teks Al-Qur'an dimuat.
+      </p>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label>Penyedia</Label>
+          <Select
+            value={config.id}
+            onValueChange={(id) => {
+              setConfig({ id: id as QuranProviderId, baseUrl: undefined });
+              setSaved(false);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROVIDER_OPTIONS.map((o) => (
+                <SelectItem key={o.id} value={o.id}>
+                  {o.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="provider-url">Alamat {needsUrl ? '' : '(opsional)'}</Label>
+          <Input
+            id="provider-url"
+            value={config.baseUrl ?? ''}
+            placeholder={option.urlPlaceholder}
+            onChange={(e) => {
+              setConfig({ ...config, baseUrl: e.target.value });
+              setSaved(false);
+            }}
+          />
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Button size="sm" onClick={handleSave} disabled={needsUrl && !config.baseUrl?.trim()}>
+            Simpan
+          </Button>
+          {saved && <span className="text-sm text-success">Tersimpan</span>}
+        </div>
+      </div>
+    </section>
+  );
+}
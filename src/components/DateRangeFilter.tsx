@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { CalendarDays } from 'lucide-react';
+import { DateRange } from 'react-day-picker';
+import { format } from 'date-fns';
+import { id as localeId } from 'date-fns/locale';
+import { StatsDateRange, lastDays } from '@/lib/session-stats';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+
+interface DateRangeFilterProps {
+  value: StatsDateRange;
+  onChange: (range: StatsDateRange) => void;
+  // Earliest date with data, used by the "Semua" preset
+  earliest?: Date;
+}
+
+const PRESETS = [
+  { label: '7 hari', days: 7 },
+  { label: '30 hari', days: 30 },
+  { label: '90 hari', days: 90 },
+];
+
+function formatRange(range: StatsDateRange): string {
+  const from = format(range.from, 'd MMM yyyy', { locale: localeId });
+  const to = format(range.to, 'd MMM yyyy', { locale: localeId });
+  return from === to ? from : `${from} – ${to}`;
+}
+
+export function DateRangeFilter({ value, onChange, earliest }: DateRangeFilterProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DateRange | undefined>({ from: value.from, to: value.to });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) setDraft({ from: value.from, to: value.to });
+    setOpen(nextOpen);
+  };
+
+  const handleSelect = (range: DateRange | undefined) => {
+    setDraft(range);
+    if (range?.from && range?.to) {
+      onChange({ from: range.from, to: range.to });
+      setOpen(false);
+    }
+  };
+
+  const applyPreset = (range: StatsDateRange) => {
+    onChange(range);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2 rounded-xl">
+          <CalendarDays className="w-4 h-4" />
+          {formatRange(value)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="center">
+        <div className="flex flex-wrap gap-2 p-3 pb-0">
+          {PRESETS.map((preset) => (
+            <Button key={preset.days} size="sm" variant="secondary" onClick={() => applyPreset(lastDays(preset.days))}>
+              {preset.label}
+            </Button>
+          ))}
+          {earliest && (
+            <Button size="sm" variant="secondary" onClick={() => applyPreset({ from: earliest, to: new Date() })}>
+              Semua
+            </Button>
+          )}
+        </div>
+        <Calendar
+          mode="range"
+          selected={draft}
+          onSelect={handleSelect}
+          defaultMonth={value.from}
+          disabled={{ after: new Date() }}
+          locale={localeId}
+          numberOfMonths={1}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
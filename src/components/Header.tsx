@@ -1,4 +1,4 @@
-import { ArrowLeft, Moon, Sun, Info } from 'lucide-react';
+import { ArrowLeft, Moon, Sun, Info, Settings, CalendarCheck, History } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useState, useEffect } from 'react';
 import {
@@ -176,6 +176,30 @@ export function Header({ title, subtitle, showBack = false, minimalMode = false
                 </Dialog>
               )}
 
+              {/* Murajaah */}
+              <button
+                onClick={() => navigate('/review')}
+                className="w-10 h-10 rounded-xl bg-secondary flex items-center justify-center hover:bg-secondary/80 transition-colors"
+              >
+                <CalendarCheck className="w-5 h-5 text-foreground" />
+              </button>
+
+              {/* History */}
+              <button
+                onClick={() => navigate('/history')}
+                className="w-10 h-10 rounded-xl bg-secondary flex items-center justify-center hover:bg-secondary/80 transition-colors"
+              >
+                <History className="w-5 h-5 text-foreground" />
+              </button>
+
+              {/* Settings */}
+              <button
+                onClick={() => navigate('/settings')}
+                className="w-10 h-10 rounded-xl bg-secondary flex items-center justify-center hover:bg-secondary/80 transition-colors"
+              >
+                <Settings className="w-5 h-5 text-foreground" />
+              </button>
+
               {/* Dark Mode Toggle */}
               <button
                 onClick={toggleDarkMode}
@@ -0,0 +1,90 @@
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, Clock, FileWarning, SearchX, ServerCrash, Settings, WifiOff } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { QuranDataError, QuranErrorKind } from '@/lib/quran-errors';
+
+interface LoadErrorStateProps {
+  error: unknown;
+  onRetry: () => void;
+  notFoundMessage?: string;
+}
+
+const ERROR_CONTENT: Record<QuranErrorKind | 'unknown', { icon: LucideIcon; title: string; description: string }> = {
+  network: {
+    icon: WifiOff,
+    title: 'Tidak Ada Koneksi',
+    description: 'Periksa koneksi internet Anda. Unduh data offline di Pengaturan agar tetap bisa menghafal tanpa sinyal.',
+  },
+  'rate-limited': {
+    icon: Clock,
+    title: 'Terlalu Banyak Permintaan',
+    description: 'Server sedang membatasi permintaan. Tunggu sebentar lalu coba lagi.',
+  },
+  'not-found': {
+    icon: SearchX,
+    title: 'Tidak Ditemukan',
+    description: 'Data yang Anda cari tidak tersedia.',
+  },
+  server: {
+    icon: ServerCrash,
+    title: 'Server Bermasalah',
+    description: 'Server Al-Qur\'an sedang mengalami gangguan. Silakan coba lagi beberapa saat lagi.',
+  },
+  'schema-mismatch': {
+    icon: FileWarning,
+    title: 'Data Tidak Valid',
+    description: 'Data dari server tidak sesuai format yang diharapkan. Coba ganti sumber data di Pengaturan.',
+  },
+  config: {
+    icon: Settings,
+    title: 'Sumber Data Belum Lengkap',
+    description: 'Pengaturan sumber data Al-Qur\'an belum lengkap, misalnya alamat server belum diisi. Periksa di Pengaturan.',
+  },
+  unknown: {
+    icon: AlertTriangle,
+    title: 'Terjadi Kesalahan',
+    description: 'Gagal memuat data. Silakan coba lagi.',
+  },
+};
+
+export function LoadErrorState({ error, onRetry, notFoundMessage }: LoadErrorStateProps) {
+  const navigate = useNavigate();
+  const kind = error instanceof QuranDataError ? error.kind : 'unknown';
+  const content = ERROR_CONTENT[kind];
+  const Icon = content.icon;
+  const isNotFound = kind === 'not-found';
+
+  return (
+    <div className="flex flex-col items-center justify-center text-center py-20 px-4 fade-in">
+      <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center mb-4">
+        <Icon className="w-8 h-8 text-destructive" />
+      </div>
+      <p className="text-lg font-semibold text-foreground mb-1">{content.title}</p>
+      <p className="text-sm text-muted-foreground max-w-sm mb-6">
+        {isNotFound && notFoundMessage ? notFoundMessage : content.description}
+      </p>
+      {isNotFound ? (
+        <button
+          onClick={() => navigate('/')}
+          className="btn-islamic px-6 py-3 rounded-xl"
+        >
+          Kembali ke Beranda
+        </button>
+      ) : kind === 'config' ? (
+        <button
+          onClick={() => navigate('/settings')}
+          className="btn-islamic px-6 py-3 rounded-xl"
+        >
+          Buka Pengaturan
+        </button>
+      ) : (
+        <button
+          onClick={onRetry}
+          className="btn-islamic px-6 py-3 rounded-xl"
+        >
+          Coba Lagi
+        </button>
+      )}
+    </div>
+  );
+}
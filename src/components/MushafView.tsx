@@ -0,0 +1,154 @@
+import { MutableRefObject, useMemo } from 'react';
+import { BASMALAH, hasBasmalahHeader } from '@/lib/recitation-session';
+import { getIndonesianName } from '@/lib/surah-translations';
+import { DisplayMode, getWordVisibility } from '@/lib/display-modes';
+import { HINT_LEVEL_LABELS } from '@/lib/hints';
+import { WordStatus } from '@/lib/recitation-tracker';
+import { cn } from '@/lib/utils';
+
+interface MushafViewProps {
+  wordStatuses: WordStatus[];
+  // Arabic surah names, for the headers of sessions spanning several surahs
+  surahNames?: Record<number, string>;
+  displayMode?: DisplayMode;
+  currentWordIndex?: number;
+  // Words matched only from the interim transcript, not confirmed by a final result yet
+  tentativeIndices?: Set<number>;
+  // Recited (correct or skipped) words become tappable, e.g. to play their audio in a report
+  onWordClick?: (index: number) => void;
+  scrollTargetIndex?: number;
+  scrollTargetRef?: MutableRefObject<HTMLSpanElement | null>;
+}
+
+// Colored mushaf-style rendering of a recitation, used live on RecitePage and for past session reports
+export function MushafView({
+  wordStatuses,
+  surahNames = {},
+  displayMode = 'blind',
+  currentWordIndex = -1,
+  tentativeIndices,
+  onWordClick,
+  scrollTargetIndex = -1,
+  scrollTargetRef,
+}: MushafViewProps) {
+  const spansSeveralSurahs = useMemo(() => {
+    return new Set(wordStatuses.map(w => w.surahNumber)).size > 1;
+  }, [wordStatuses]);
+
+  // Per-ayah status, computed once per update instead of per rendered word
+  // (read-along renders every word of a juz at once)
+  const ayahSummaries = useMemo(() => {
+    const summaries: { allSkipped: boolean; someSkipped: boolean; allPending: boolean }[] = [];
+    wordStatuses.forEach(w => {
+      const summary = summaries[w.ayahIndex] ?? { allSkipped: true, someSkipped: false, allPending: true };
+      summary.allSkipped = summary.allSkipped && w.status === 'incorrect';
+      summary.someSkipped = summary.someSkipped || w.status === 'incorrect';
+      summary.allPending = summary.allPending && w.status === 'pending';
+      summaries[w.ayahIndex] = summary;
+    });
+    return summaries;
+  }, [wordStatuses]);
+
+  return (
+    <p className="font-arabic text-2xl md:text-3xl leading-[2.8] text-right">
+      {wordStatuses.map((wordStatus, idx) => {
+        const isAyahStart = idx === 0 || wordStatuses[idx - 1].isLastWord;
+        const visibility = getWordVisibility(displayMode, wordStatus, isAyahStart);
+        // Hidden words only keep their ayah end marker outside blind mode
+        if (visibility === 'hidden' && (displayMode === 'blind' || !wordStatus.isLastWord)) return null;
+
+        const isCurrent = idx === currentWordIndex && visibility !== 'hidden';
+
+        const isSkipped = wordStatus.status === 'incorrect';
+        const isTentative = tentativeIndices?.has(idx) ?? false;
+        const isClickable = Boolean(onWordClick) && wordStatus.status !== 'pending';
+
+        // Check if this is the first skipped word of an ayah (to show ayah label)
+        const isFirstSkippedInAyah = isSkipped && (
+          idx === 0 || 
+          wordStatuses[idx - 1]?.ayahIndex !== wordStatus.ayahIndex ||
+          wordStatuses[idx - 1]?.status !== 'incorrect'
+        );
+
+        // Check if entire ayah was skipped
+        const { allSkipped: allAyahSkipped, someSkipped: someAyahSkipped, allPending: isPendingAyah } =
+          ayahSummaries[wordStatus.ayahIndex];
+
+        // Surah header + basmalah where a new surah starts
+        const isSurahStart = wordStatus.ayahNumber === 1 && isAyahStart;
+
+        return (
+          <span
+            key={idx}
+            ref={idx === scrollTargetIndex ? scrollTargetRef : undefined}
+            className="relative group inline"
+          >
+            {isSurahStart && spansSeveralSurahs && (
+              <span className="block text-center my-4 py-2 rounded-xl bg-primary/5 border border-primary/20">
+                <span className="block text-xl md:text-2xl text-primary">{surahNames[wordStatus.surahNumber]}</span>
+                <span className="block text-xs text-muted-foreground font-sans">
+                  {getIndonesianName(wordStatus.surahNumber)}
+                </span>
+              </span>
+            )}
+            {isSurahStart && hasBasmalahHeader(wordStatus.surahNumber) && (
+              <span className="block text-center text-xl md:text-2xl text-primary/80 mb-2">
+                {BASMALAH}
+              </span>
+            )}
+            {/* Show "Ayat X Terlewat" label at start of skipped ayah */}
+            {isFirstSkippedInAyah && allAyahSkipped && (
+              <span className="inline-flex items-center gap-1 mx-2 px-2 py-0.5 text-xs bg-amber-500/20 text-amber-600 dark:text-amber-400 rounded-full font-sans whitespace-nowrap">
+                ⚠️ Ayat {wordStatus.ayahNumber} Terlewat
+              </span>
+            )}
+            {visibility === 'hidden' ? (
+              <span className="px-0.5 text-muted-foreground/40">…</span>
+            ) : (
+              <span
+                className={cn(
+                  'px-0.5 rounded transition-all duration-200',
+                  wordStatus.status === 'correct' && 'text-success',
+                  isTentative && 'text-success/50',
+                  isSkipped && 'text-amber-500 bg-amber-500/10',
+                  visibility === 'ghost' && 'text-muted-foreground/50',
+                  visibility === 'faint' && 'text-muted-foreground/20',
+                  isCurrent && 'bg-primary/15 ring-1 ring-primary/40',
+                  isCurrent && visibility === 'ghost' && 'text-foreground',
+                  wordStatus.hintLevel > 0 && 'underline decoration-dotted decoration-sky-500 underline-offset-8',
+                  isClickable && 'cursor-pointer hover:bg-primary/10'
+                )}
+                onClick={isClickable ? () => onWordClick?.(idx) : undefined}
+                title={wordStatus.hintLevel > 0 ? `Dibantu petunjuk (${HINT_LEVEL_LABELS[wordStatus.hintLevel].toLowerCase()})` : undefined}
+              >
+                {wordStatus.word}
+              </span>
+            )}
+            {/* Tooltip for individual skipped words (within partially correct ayah) */}
+            {isSkipped && !allAyahSkipped && (
+              <span className="absolute -top-8 right-0 z-10 hidden group-hover:block bg-amber-500 text-white text-xs px-2 py-1 rounded whitespace-nowrap font-sans">
+                Kata terlewat
+              </span>
+            )}
+            {/* Ayah end marker */}
+            {wordStatus.isLastWord && (
+              <span className={cn(
+                "inline-flex items-center justify-center w-6 h-6 mx-1 text-xs rounded-full border font-sans",
+                allAyahSkipped
+                  ? "border-amber-500/50 text-amber-500 bg-amber-500/10"
+                  : someAyahSkipped
+                    ? "border-amber-500/30 text-amber-600"
+                    : isPendingAyah
+                      ? "border-border text-muted-foreground"
+                      : "border-primary/30 text-primary"
+              )}>
+                {wordStatus.ayahNumber}
+              </span>
+            )}
+            {!wordStatus.isLastWord && <span className="inline"> </span>}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
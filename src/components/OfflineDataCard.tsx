@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Download, Trash2 } from 'lucide-react';
+import { downloadAllSurahs } from '@/lib/quran-api';
+import {
+  OfflineStatus,
+  StorageUsage,
+  clearOfflineCache,
+  formatBytes,
+  getOfflineStatus,
+  getStorageUsage,
+} from '@/lib/quran-cache';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+
+export function OfflineDataCard() {
+  const [status, setStatus] = useState<OfflineStatus | null>(null);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStatus(await getOfflineStatus());
+      setStorage(await getStorageUsage());
+    } catch {
+      setError('Penyimpanan offline tidak tersedia di browser ini.');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDownload = async () => {
+    setError(null);
+    setDownloadProgress(0);
+    try {
+      await downloadAllSurahs((done, total) => setDownloadProgress(Math.round((done / total) * 100)));
+    } catch {
+      setError('Unduhan terhenti. Periksa koneksi lalu coba lagi, surah yang sudah tersimpan tidak diunduh ulang.');
+    } finally {
+      setDownloadProgress(null);
+      refresh();
+    }
+  };
+
+  const handleClear = async () => {
+    await clearOfflineCache();
+    refresh();
+  };
+
+  const isComplete = status !== null && status.cachedSurahs >= status.totalSurahs;
+
+  return (
+    <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+      <h2 className="text-lg font-semibold text-foreground mb-1">Data Offline</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Simpan teks Al-Qur'an di perangkat agar tetap bisa menghafal tanpa sinyal.
+      </p>
+
+      {status && (
+        <div className="space-y-1 text-sm mb-4">
+          <p className="text-foreground">
+            <span className="font-semibold">{status.cachedSurahs}</span> dari {status.totalSurahs} surah tersimpan
+          </p>
+          {storage && (
+            <p className="text-muted-foreground">
+              Penyimpanan terpakai: {formatBytes(storage.usage)}
+              {storage.quota > 0 && ` dari ${formatBytes(storage.quota)}`}
+            </p>
+          )}
+          <p className="text-muted-foreground">Versi data: {status.version}</p>
+        </div>
+      )}
+
+      {downloadProgress !== null && (
+        <div className="mb-4">
+          <Progress value={downloadProgress} />
+          <p className="text-xs text-muted-foreground mt-1">Mengunduh... {downloadProgress}%</p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          onClick={handleDownload}
+          disabled={downloadProgress !== null || isComplete}
+          className="gap-2"
+        >
+          <Download className="w-4 h-4" />
+          {isComplete ? 'Semua Surah Tersimpan' : 'Unduh 114 Surah'}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleClear}
+          disabled={downloadProgress !== null || !status?.cachedSurahs}
+          className="gap-2"
+        >
+          <Trash2 className="w-4 h-4" />
+          Hapus Data Offline
+        </Button>
+      </div>
+    </section>
+  );
+}
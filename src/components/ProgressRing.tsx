@@ -0,0 +1,44 @@
+import { ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+interface ProgressRingProps {
+  // 0..1
+  value: number;
+  size?: number;
+  strokeWidth?: number;
+  className?: string;
+  children?: ReactNode;
+}
+
+export function ProgressRing({ value, size = 44, strokeWidth = 3, className, children }: ProgressRingProps) {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const offset = circumference * (1 - Math.min(1, Math.max(0, value)));
+
+  return (
+    <div className={cn('relative flex items-center justify-center', className)} style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="absolute inset-0 -rotate-90">
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={strokeWidth}
+          className="stroke-muted"
+        />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={offset}
+          className="stroke-success transition-all duration-500"
+        />
+      </svg>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Download, Play, ScanSearch } from 'lucide-react';
+import { VoiceIndicator } from '@/components/VoiceIndicator';
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { useStrictnessProfile } from '@/hooks/useStrictnessProfile';
+import { LocatedAyah, QuranIndex, loadQuranIndex, locateRecitation } from '@/lib/quran-locator';
+import { downloadAllSurahs } from '@/lib/quran-api';
+import { TOTAL_SURAHS } from '@/lib/quran-cache';
+import { getRecitePath } from '@/lib/ayah-range';
+import { getIndonesianName } from '@/lib/surah-translations';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+
+// Where to pick up: the located ayah, or the one after it when it was recited to the end
+function getContinuePath({ ayah, reachedAyahEnd }: LocatedAyah): { path: string; label: string } {
+  const { surah, numberInSurah } = ayah;
+
+  if (reachedAyahEnd && numberInSurah >= surah.numberOfAyahs) {
+    return surah.number < TOTAL_SURAHS
+      ? { path: `/recite/${surah.number + 1}`, label: `Lanjut ke ${getIndonesianName(surah.number + 1)}` }
+      : { path: `/recite/${surah.number}`, label: 'Ulangi Surah Ini' };
+  }
+
+  const from = reachedAyahEnd ? numberInSurah + 1 : numberInSurah;
+  return {
+    path: getRecitePath(surah.number, { from, to: surah.numberOfAyahs }, surah.numberOfAyahs),
+    label: `Lanjutkan dari Ayat ${from}`,
+  };
+}
+
+function LocatorPanel() {
+  const navigate = useNavigate();
+  const [index, setIndex] = useState<QuranIndex | null>(null);
+  // The index needs the whole Quran offline; it is only downloaded when the user asks
+  const [isDownloaded, setIsDownloaded] = useState<boolean | null>(null);
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [located, setLocated] = useState<LocatedAyah | null>(null);
+
+  const {
+    isListening,
+    transcript,
+    interimTranscript,
+    startListening,
+    stopListening,
+    resetTranscript,
+    error: speechError,
+  } = useSpeechRecognition();
+  const { similarityWeights } = useStrictnessProfile();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadQuranIndex()
+      .then(loaded => {
+        if (cancelled) return;
+        setIndex(loaded);
+        setIsDownloaded(loaded !== null);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError('Penyimpanan offline tidak tersedia di browser ini, pencarian dari bacaan tidak bisa dipakai.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  // Keep the last position found; a few unrecognized words should not make it disappear
+  useEffect(() => {
+    if (!index) return;
+    const result = locateRecitation(index, transcript, similarityWeights);
+    if (result) setLocated(result);
+  }, [index, transcript, similarityWeights]);
+
+  const handleVoiceToggle = () => {
+    if (isListening) {
+      stopListening();
+    } else {
+      resetTranscript();
+      setLocated(null);
+      startListening();
+    }
+  };
+
+  const handleDownload = async () => {
+    setDownloadError(null);
+    setDownloadProgress(0);
+    try {
+      await downloadAllSurahs((done, total) => setDownloadProgress(Math.round((done / total) * 100)));
+      setReloadKey(k => k + 1);
+    } catch {
+      setDownloadError('Unduhan terhenti. Periksa koneksi lalu coba lagi, surah yang sudah tersimpan tidak diunduh ulang.');
+    } finally {
+      setDownloadProgress(null);
+    }
+  };
+
+  if (loadError) {
+    return <p className="text-sm text-destructive text-center py-4">{loadError}</p>;
+  }
+
+  if (downloadProgress !== null) {
+    return (
+      <div className="py-4 space-y-2">
+        <Progress value={downloadProgress} />
+        <p className="text-xs text-muted-foreground text-center">Mengunduh Al-Qur'an... {downloadProgress}%</p>
+      </div>
+    );
+  }
+
+  if (isDownloaded === false) {
+    return (
+      <div className="flex flex-col items-center gap-3 py-4 text-center">
+        <p className="text-sm text-muted-foreground">
+          Pencarian dari bacaan membutuhkan teks seluruh Al-Qur'an di perangkat. Unduh sekali, setelah itu bisa dipakai tanpa sinyal.
+        </p>
+        {downloadError && <p className="text-sm text-destructive">{downloadError}</p>}
+        <Button size="sm" onClick={handleDownload} className="gap-2">
+          <Download className="w-4 h-4" />
+          Unduh 114 Surah
+        </Button>
+      </div>
+    );
+  }
+
+  if (!index) {
+    return <p className="text-xs text-muted-foreground text-center py-4">Menyiapkan indeks Al-Qur'an...</p>;
+  }
+
+  const continueTo = located ? getContinuePath(located) : null;
+
+  return (
+    <div className="flex flex-col items-center gap-4 py-2">
+      <VoiceIndicator isListening={isListening} onClick={handleVoiceToggle} />
+      <p className="text-xs text-muted-foreground">
+        {isListening ? '🎙️ Mendengarkan...' : 'Tekan lalu baca beberapa ayat'}
+      </p>
+
+      {(transcript || interimTranscript) && (
+        <p dir="rtl" className="font-arabic text-lg text-muted-foreground text-center line-clamp-2">
+          {transcript.split(' ').slice(-12).join(' ')} <span className="opacity-60">{interimTranscript}</span>
+        </p>
+      )}
+
+      {speechError && <p className="text-sm text-destructive text-center">{speechError}</p>}
+
+      {located && continueTo && (
+        <div className="w-full rounded-xl bg-secondary/50 p-4 text-center fade-in">
+          <p className="text-sm font-semibold text-foreground">
+            {getIndonesianName(located.ayah.surah.number)} · Ayat {located.ayah.numberInSurah}
+          </p>
+          <p dir="rtl" className="font-arabic text-xl text-primary my-2 line-clamp-3">{located.ayah.text}</p>
+          <p className="text-xs text-muted-foreground mb-3">{located.confidence}% kata terakhir cocok</p>
+          <Button
+            size="sm"
+            onClick={() => {
+              stopListening();
+              navigate(continueTo.path);
+            }}
+            className="gap-2"
+          >
+            <Play className="w-4 h-4" />
+            {continueTo.label}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RecitationLocator() {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2 rounded-xl">
+          <ScanSearch className="w-4 h-4" />
+          Cari dari Bacaan
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md rounded-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-center">Sedang Membaca Apa?</DialogTitle>
+          <DialogDescription className="text-center">
+            Bacalah dengan bebas dari ayat mana saja, posisinya akan ditemukan di seluruh Al-Qur'an.
+          </DialogDescription>
+        </DialogHeader>
+        <LocatorPanel />
+      </DialogContent>
+    </Dialog>
+  );
+}
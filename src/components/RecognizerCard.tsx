@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { isFakeRecognizerForced, loadSavedRecognizerConfig, saveRecognizerConfig } from '@/lib/recognizer-engines';
+import type { RecognizerConfig, RecognizerEngineId } from '@/lib/recognizer-types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const ENGINE_OPTIONS: { id: RecognizerEngineId; label: string }[] = [
+  { id: 'web-speech', label: 'Bawaan browser (Web Speech)' },
+  { id: 'websocket', label: 'Server sendiri (WebSocket)' },
+];
+
+export function RecognizerCard() {
+  const [config, setConfig] = useState<RecognizerConfig>(loadSavedRecognizerConfig);
+  const [saved, setSaved] = useState(false);
+  // The URL flag / test harness overrides this setting for the current page load
+  const [isFakeForced] = useState(isFakeRecognizerForced);
+
+  const needsUrl = config.id === 'websocket';
+
+  // The engine is created when a recitation page opens, so the change applies from the next session
+  const handleSave = () => {
+    saveRecognizerConfig({ id: config.id, url: needsUrl ? config.url?.trim() : undefined });
+    setSaved(true);
+  };
+
+  return (
+    <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+      <h2 className="text-lg font-semibold text-foreground mb-1">Pengenal Suara</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Gunakan server ASR sendiri (misalnya Vosk atau Whisper) untuk hasil yang lebih akurat dan tetap berjalan offline.
+      </p>
+
+      {isFakeForced && (
+        <p className="text-sm text-amber-600 dark:text-amber-400 mb-4">
+          Pengenal suara tiruan (untuk pengujian) sedang aktif lewat alamat halaman, sehingga pengaturan
+          di bawah tidak dipakai sampai halaman dibuka tanpa <code>?recognizer=fake</code>.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label>Mesin</Label>
+          <Select
+            disabled={isFakeForced}
+            value={config.id}
+            onValueChange={(id) => {
+              setConfig({ ...config, id: id as RecognizerEngineId });
+              setSaved(false);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ENGINE_OPTIONS.map((o) => (
+                <SelectItem key={o.id} value={o.id}>
+                  {o.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {needsUrl && (
+          <div className="space-y-2">
+            <Label htmlFor="recognizer-url">Alamat WebSocket</Label>
+            <Input
+              id="recognizer-url"
+              disabled={isFakeForced}
+              value={config.url ?? ''}
+              placeholder="ws://localhost:2700"
+              onChange={(e) => {
+                setConfig({ ...config, url: e.target.value });
+                setSaved(false);
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              Audio mikrofon dikirim sebagai PCM 16 kHz mono, sesuai protokol vosk-server.
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Button size="sm" onClick={handleSave} disabled={isFakeForced || (needsUrl && !config.url?.trim())}>
+            Simpan
+          </Button>
+          {saved && <span className="text-sm text-success">Tersimpan</span>}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SESSION_KIND_LABELS, SESSION_LIMITS, SessionKind, getSessionPath } from '@/lib/recitation-session';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface SectionNavigatorProps {
+  kind: Exclude<SessionKind, 'surah'>;
+}
+
+// Juz and hizb are few enough for a grid; pages and rukus are picked by number
+const GRID_KINDS: SessionKind[] = ['juz', 'hizb'];
+
+export function SectionNavigator({ kind }: SectionNavigatorProps) {
+  const navigate = useNavigate();
+  const [value, setValue] = useState('');
+  const limit = SESSION_LIMITS[kind];
+  const label = SESSION_KIND_LABELS[kind];
+
+  if (GRID_KINDS.includes(kind)) {
+    return (
+      <div className="grid grid-cols-5 sm:grid-cols-6 md:grid-cols-10 gap-2">
+        {Array.from({ length: limit }, (_, i) => i + 1).map((n) => (
+          <button
+            key={n}
+            onClick={() => navigate(getSessionPath(kind, n))}
+            className="card-islamic aspect-square rounded-xl flex flex-col items-center justify-center"
+          >
+            <span className="text-[10px] text-muted-foreground">{label}</span>
+            <span className="text-lg font-semibold text-primary">{n}</span>
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  const number = Number(value);
+  const isValid = Number.isInteger(number) && number >= 1 && number <= limit;
+
+  return (
+    <form
+      className="bg-card rounded-2xl border border-border p-4 md:p-6 max-w-md mx-auto"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (isValid) navigate(getSessionPath(kind, number));
+      }}
+    >
+      <p className="text-sm text-muted-foreground mb-3">
+        Masukkan nomor {label.toLowerCase()} (1–{limit}) sesuai mushaf Madinah.
+      </p>
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min={1}
+          max={limit}
+          value={value}
+          placeholder={`${label} ke-`}
+          onChange={(e) => setValue(e.target.value)}
+          className="h-12 rounded-xl"
+        />
+        <Button type="submit" disabled={!isValid} className="h-12 rounded-xl">
+          Mulai
+        </Button>
+      </div>
+    </form>
+  );
+}
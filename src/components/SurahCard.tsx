@@ -1,14 +1,21 @@
-import { MapPin, BookOpen } from 'lucide-react';
+import { MapPin, BookOpen, ListOrdered } from 'lucide-react';
 import { Surah } from '@/lib/quran-api';
+import { AyahRange } from '@/lib/ayah-range';
+import { AyahRangePicker } from '@/components/AyahRangePicker';
+import { ProgressRing } from '@/components/ProgressRing';
 import { getIndonesianName, getIndonesianTranslation } from '@/lib/surah-translations';
+import { cn } from '@/lib/utils';
 import bintangImg from '@/assets/bintang.png';
 
 interface SurahCardProps {
   surah: Surah;
   onClick: () => void;
+  onSelectRange?: (range: AyahRange) => void;
+  // 0..1 memorization progress, shown as a ring around the surah number
+  progress?: number;
 }
 
-export function SurahCard({ surah, onClick }: SurahCardProps) {
+export function SurahCard({ surah, onClick, onSelectRange, progress }: SurahCardProps) {
   const revelationPlace = surah.revelationType === 'Meccan' ? 'Mekah' : 'Madinah';
   
   // Remove "سورة" prefix from Arabic name
@@ -19,48 +26,68 @@ export function SurahCard({ surah, onClick }: SurahCardProps) {
   const indonesianTranslation = getIndonesianTranslation(surah.number);
   
   return (
-    <button
-      onClick={onClick}
-      className="card-islamic w-full p-4 rounded-xl flex items-center gap-4 group"
-    >
-      {/* Surah Number - Islamic Star */}
-      <div className="relative w-11 h-11 flex items-center justify-center flex-shrink-0">
-        <img 
-          src={bintangImg}
-          alt=""
-          className="absolute inset-0 w-full h-full object-contain"
-        />
-        <span className="relative z-10 text-sm font-semibold text-primary">
-          {surah.number}
-        </span>
-      </div>
+    <div className="card-islamic w-full rounded-xl flex items-center group">
+      <button
+        onClick={onClick}
+        className="flex-1 min-w-0 p-4 flex items-center gap-4"
+      >
+        {/* Surah Number - Islamic Star, inside a progress ring once recited */}
+        <ProgressRing
+          value={progress ?? 0}
+          size={52}
+          className={cn('flex-shrink-0', progress === undefined && '[&>svg]:hidden')}
+        >
+          <div className="relative w-11 h-11 flex items-center justify-center">
+            <img 
+              src={bintangImg}
+              alt=""
+              className="absolute inset-0 w-full h-full object-contain"
+            />
+            <span className="relative z-10 text-sm font-semibold text-primary">
+              {surah.number}
+            </span>
+          </div>
+        </ProgressRing>
       
-      {/* Surah Info - Middle */}
-      <div className="flex-1 text-left min-w-0">
-        <h3 className="text-base font-semibold text-foreground truncate">
-          {indonesianSurahName}
-        </h3>
-        <p className="text-sm text-muted-foreground truncate">
-          {indonesianTranslation}
-        </p>
-        <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
-          <span className="flex items-center gap-1">
-            <MapPin className="w-3 h-3" />
-            {revelationPlace}
-          </span>
-          <span className="flex items-center gap-1">
-            <BookOpen className="w-3 h-3" />
-            {surah.numberOfAyahs}
-          </span>
+        {/* Surah Info - Middle */}
+        <div className="flex-1 text-left min-w-0">
+          <h3 className="text-base font-semibold text-foreground truncate">
+            {indonesianSurahName}
+          </h3>
+          <p className="text-sm text-muted-foreground truncate">
+            {indonesianTranslation}
+          </p>
+          <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <MapPin className="w-3 h-3" />
+              {revelationPlace}
+            </span>
+            <span className="flex items-center gap-1">
+              <BookOpen className="w-3 h-3" />
+              {surah.numberOfAyahs}
+            </span>
+          </div>
         </div>
-      </div>
       
-      {/* Arabic Name - Right */}
-      <div className="text-right flex-shrink-0">
-        <h3 className="font-arabic text-2xl font-bold text-primary">
-          {arabicName}
-        </h3>
-      </div>
-    </button>
+        {/* Arabic Name - Right */}
+        <div className="text-right flex-shrink-0">
+          <h3 className="font-arabic text-2xl font-bold text-primary">
+            {arabicName}
+          </h3>
+        </div>
+      </button>
+
+      {/* Ayah range picker */}
+      {onSelectRange && (
+        <AyahRangePicker numberOfAyahs={surah.numberOfAyahs} onSelect={onSelectRange}>
+          <button
+            className="self-stretch px-3 border-l border-border text-muted-foreground hover:text-primary transition-colors"
+            aria-label="Pilih ayat"
+          >
+            <ListOrdered className="w-5 h-5" />
+          </button>
+        </AyahRangePicker>
+      )}
+    </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { FakeRecognizerEvent } from '@/lib/fake-recognizer';
+import { RecitationTracker, buildWordStatuses } from '@/lib/recitation-tracker';
+import { fatihahAyahs } from '@/test/quran-fixtures';
+
+function startWithScript(script: FakeRecognizerEvent[]) {
+  window.__fakeRecognizerScript = script;
+  const hook = renderHook(() => useSpeechRecognition());
+  act(() => hook.result.current.startListening());
+  return hook;
+}
+
+// Run the whole timeline, including the hook's restart delays
+async function playScript() {
+  await act(async () => {
+    await vi.runAllTimersAsync();
+  });
+}
+
+describe('useSpeechRecognition with the fake recognizer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    delete window.__fakeRecognizerScript;
+    vi.useRealTimers();
+  });
+
+  it('keeps listening through recoverable errors and dropped sessions', async () => {
+    const { result } = startWithScript([
+      { type: 'partial', text: 'بسم' },
+      { type: 'final', text: 'بسم الله' },
+      { type: 'error', code: 'no-speech' },
+      { type: 'final', text: 'الرحمن الرحيم' },
+      { type: 'end' },
+      { type: 'error', code: 'network' },
+      { type: 'final', text: 'الحمد لله' },
+    ]);
+
+    await playScript();
+
+    // The fake engine only continues its script once the hook restarts it
+    expect(result.current.isListening).toBe(true);
+    expect(result.current.error).toBeNull();
+    expect(result.current.transcript).toBe('بسم الله الرحمن الرحيم الحمد لله');
+    expect(result.current.heardWords).toHaveLength(6);
+  });
+
+  it('stops on an unrecoverable error', async () => {
+    const { result } = startWithScript([
+      { type: 'final', text: 'بسم الله' },
+      { type: 'error', code: 'not-allowed' },
+      { type: 'final', text: 'الرحمن الرحيم' },
+    ]);
+
+    await playScript();
+
+    expect(result.current.isListening).toBe(false);
+    expect(result.current.error).toBe('Error: not-allowed');
+    expect(result.current.transcript).toBe('بسم الله');
+  });
+
+  it('lets the matcher detect skipped words and a jump over whole ayahs', async () => {
+    const { result } = startWithScript([
+      { type: 'final', text: 'بسم الله الرحمن الرحيم' },
+      { type: 'end' },
+      // "رب" skipped
+      { type: 'final', text: 'الحمد لله العالمين الرحمن' },
+      { type: 'error', code: 'no-speech' },
+      // Ayah 3 finished, then ayahs 4 and 5 left out entirely
+      { type: 'final', text: 'الرحيم اهدنا الصراط' },
+    ]);
+
+    await playScript();
+
+    const tracker = new RecitationTracker(buildWordStatuses(fatihahAyahs(1, 6)));
+    tracker.syncHeardWords(result.current.heardWords);
+    const statuses = tracker.wordStatuses.map(w => w.status);
+
+    expect(statuses.slice(0, 4)).toEqual(['correct', 'correct', 'correct', 'correct']);
+    expect(statuses.slice(4, 8)).toEqual(['correct', 'correct', 'incorrect', 'correct']);
+    expect(statuses.slice(8, 10)).toEqual(['correct', 'correct']);
+    expect(statuses.slice(10, 17)).toEqual(Array(7).fill('incorrect'));
+    expect(statuses.slice(17, 19)).toEqual(['correct', 'correct']);
+    expect(tracker.currentWordIndex).toBe(19);
+  });
+});
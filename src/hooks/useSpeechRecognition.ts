@@ -1,8 +1,13 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { createRecognizerEngine, loadRecognizerConfig } from '@/lib/recognizer-engines';
+import type { RecognizerEngine } from '@/lib/recognizer-types';
+import { HeardWord, hypothesesToHeardWords } from '@/lib/recitation-tracker';
 
 interface UseSpeechRecognitionReturn {
   isListening: boolean;
   transcript: string;
+  // Words of the transcript with the n-best alternatives the recognizer offered for each
+  heardWords: HeardWord[];
   interimTranscript: string;
   error: string | null;
   isSupported: boolean;
@@ -11,25 +16,15 @@ interface UseSpeechRecognitionReturn {
   resetTranscript: () => void;
 }
 
-// Extend Window interface for SpeechRecognition
-interface SpeechRecognitionEvent extends Event {
-  resultIndex: number;
-  results: SpeechRecognitionResultList;
-}
-
-interface SpeechRecognitionErrorEvent extends Event {
-  error: string;
-  message: string;
-}
-
 export function useSpeechRecognition(): UseSpeechRecognitionReturn {
   const [isListening, setIsListening] = useState(false);
   const [transcript, setTranscript] = useState('');
+  const [heardWords, setHeardWords] = useState<HeardWord[]>([]);
   const [interimTranscript, setInterimTranscript] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isSupported, setIsSupported] = useState(false);
 
-  const recognitionRef = useRef<any>(null);
+  const engineRef = useRef<RecognizerEngine | null>(null);
 
   // Track user intent: keep listening until user presses stop
   const shouldBeListeningRef = useRef(false);
@@ -37,112 +32,83 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
   const restartAttemptsRef = useRef(0);
 
   useEffect(() => {
-    // Check for browser support
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    
-    if (SpeechRecognition) {
+    // Engine dipilih di Pengaturan (Web Speech bawaan browser atau server ASR sendiri)
+    const engine = createRecognizerEngine(loadRecognizerConfig());
+
+    if (engine.isSupported) {
       setIsSupported(true);
-      const recognition = new SpeechRecognition();
-      
-      recognition.continuous = true;
-      recognition.interimResults = true;
-      recognition.lang = 'ar-SA'; // Arabic (Saudi Arabia)
-      
-      recognition.onstart = () => {
-        setIsListening(true);
-        restartAttemptsRef.current = 0;
-        setError(null);
-      };
-      
-      recognition.onend = () => {
-        // Chrome mobile sering berhenti sendiri saat hening.
-        // Kalau user belum menekan stop, kita auto-restart supaya tetap listening.
-        if (shouldBeListeningRef.current) {
-          // Tetap tampilkan status "mendengarkan" di UI
+
+      engine.setHandlers({
+        onStart: () => {
           setIsListening(true);
+          restartAttemptsRef.current = 0;
+          setError(null);
+        },
+
+        onEnd: () => {
+          // Chrome mobile sering berhenti sendiri saat hening, server bisa memutus koneksi.
+          // Kalau user belum menekan stop, kita auto-restart supaya tetap listening.
+          if (shouldBeListeningRef.current) {
+            // Tetap tampilkan status "mendengarkan" di UI
+            setIsListening(true);
+
+            if (restartTimeoutRef.current) {
+              window.clearTimeout(restartTimeoutRef.current);
+            }
+
+            const attempt = restartAttemptsRef.current;
+            const delayMs = Math.min(1500, 250 + attempt * 250);
+
+            restartTimeoutRef.current = window.setTimeout(() => engine.start(), delayMs);
 
-          if (restartTimeoutRef.current) {
-            window.clearTimeout(restartTimeoutRef.current);
+            restartAttemptsRef.current = Math.min(restartAttemptsRef.current + 1, 6);
+            return;
           }
 
-          const attempt = restartAttemptsRef.current;
-          const delayMs = Math.min(1500, 250 + attempt * 250);
+          setIsListening(false);
+        },
 
-          restartTimeoutRef.current = window.setTimeout(() => {
-            try {
-              recognition.start();
-            } catch {
-              // ignore - bisa terjadi kalau start dipanggil saat masih dianggap aktif
-            }
-          }, delayMs);
-
-          restartAttemptsRef.current = Math.min(restartAttemptsRef.current + 1, 6);
-          return;
-        }
-
-        setIsListening(false);
-      };
-      
-      recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-        // Jangan langsung mematikan sesi kalau error yang umum di mobile (no-speech/aborted).
-        // Tetap restart kalau user masih ingin listening.
-        const err = event.error;
-
-        if (shouldBeListeningRef.current && (err === 'no-speech' || err === 'aborted' || err === 'network' || err === 'audio-capture')) {
-          return;
-        }
-
-        setError(`Error: ${event.error}`);
-        shouldBeListeningRef.current = false;
-        setIsListening(false);
-      };
-      
-      recognition.onresult = (event: SpeechRecognitionEvent) => {
-        let finalTranscript = '';
-        let interim = '';
-        
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const result = event.results[i];
-          if (result.isFinal) {
-            finalTranscript += result[0].transcript;
-          } else {
-            interim += result[0].transcript;
+        onError: (err) => {
+          // Jangan langsung mematikan sesi kalau error yang umum di mobile (no-speech/aborted).
+          // Tetap restart kalau user masih ingin listening.
+          if (shouldBeListeningRef.current && err.recoverable) {
+            return;
           }
-        }
-        
-        if (finalTranscript) {
-          setTranscript(prev => prev + ' ' + finalTranscript);
-        }
-        setInterimTranscript(interim);
-      };
-      
-      recognitionRef.current = recognition;
+
+          setError(`Error: ${err.code}`);
+          shouldBeListeningRef.current = false;
+          setIsListening(false);
+        },
+
+        onFinal: (hypotheses) => {
+          setTranscript(prev => prev + ' ' + hypotheses[0].transcript);
+          setHeardWords(prev => [...prev, ...hypothesesToHeardWords(hypotheses)]);
+        },
+
+        onPartial: setInterimTranscript,
+      });
+
+      engineRef.current = engine;
     } else {
       setIsSupported(false);
       setError('Browser tidak mendukung Speech Recognition');
     }
-    
+
     return () => {
       if (restartTimeoutRef.current) {
         window.clearTimeout(restartTimeoutRef.current);
       }
-      if (recognitionRef.current) {
-        shouldBeListeningRef.current = false;
-        recognitionRef.current.stop();
-      }
+      shouldBeListeningRef.current = false;
+      engine.dispose();
+      engineRef.current = null;
     };
   }, []);
 
   const startListening = useCallback(() => {
-    if (recognitionRef.current && !isListening) {
+    if (engineRef.current && !isListening) {
       shouldBeListeningRef.current = true;
-
-      try {
-        recognitionRef.current.start();
-      } catch {
-        // Recognition might already be started
-      }
-    } else if (recognitionRef.current && isListening) {
+      engineRef.current.start();
+    } else if (engineRef.current && isListening) {
       // Already listening, but ensure intent is set
       shouldBeListeningRef.current = true;
     }
@@ -155,20 +121,22 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
     }
     shouldBeListeningRef.current = false;
 
-    if (recognitionRef.current && isListening) {
-      recognitionRef.current.stop();
+    if (engineRef.current && isListening) {
+      engineRef.current.stop();
     }
     setIsListening(false);
   }, [isListening]);
 
   const resetTranscript = useCallback(() => {
     setTranscript('');
+    setHeardWords([]);
     setInterimTranscript('');
   }, []);
 
   return {
     isListening,
     transcript: transcript.trim(),
+    heardWords,
     interimTranscript,
     error,
     isSupported,
@@ -0,0 +1,53 @@
+import { useState, useCallback } from 'react';
+import { MatcherThresholds } from '@/lib/recitation-tracker';
+import {
+  SimilarityWeights,
+  loadSimilarityWeights,
+  saveSimilarityWeights,
+} from '@/lib/arabic-similarity';
+import {
+  StrictnessProfile,
+  StrictnessProfileId,
+  getStrictnessProfile,
+  loadProfileId,
+  saveProfileId,
+  saveCustomThresholds,
+} from '@/lib/strictness-profiles';
+
+interface UseStrictnessProfileReturn {
+  profile: StrictnessProfile;
+  selectProfile: (id: StrictnessProfileId) => void;
+  updateCustomThresholds: (thresholds: MatcherThresholds) => void;
+  similarityWeights: SimilarityWeights;
+  updateSimilarityWeights: (weights: SimilarityWeights) => void;
+}
+
+export function useStrictnessProfile(): UseStrictnessProfileReturn {
+  const [profile, setProfile] = useState<StrictnessProfile>(() => getStrictnessProfile(loadProfileId()));
+  const [similarityWeights, setSimilarityWeights] = useState<SimilarityWeights>(loadSimilarityWeights);
+
+  const selectProfile = useCallback((id: StrictnessProfileId) => {
+    saveProfileId(id);
+    setProfile(getStrictnessProfile(id));
+  }, []);
+
+  // Editing any threshold switches to the custom profile
+  const updateCustomThresholds = useCallback((thresholds: MatcherThresholds) => {
+    saveCustomThresholds(thresholds);
+    saveProfileId('custom');
+    setProfile(getStrictnessProfile('custom'));
+  }, []);
+
+  const updateSimilarityWeights = useCallback((weights: SimilarityWeights) => {
+    saveSimilarityWeights(weights);
+    setSimilarityWeights(weights);
+  }, []);
+
+  return {
+    profile,
+    selectProfile,
+    updateCustomThresholds,
+    similarityWeights,
+    updateSimilarityWeights,
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIMILARITY_WEIGHTS, arabicEditDistance, calculateSimilarity } from '@/lib/arabic-similarity';
+
+describe('arabicEditDistance', () => {
+  it('counts plain insertions, deletions and substitutions as 1', () => {
+    expect(arabicEditDistance('', 'رب')).toBe(2);
+    expect(arabicEditDistance('العالمين', 'العالمن')).toBe(1);
+    expect(arabicEditDistance('نعبد', 'نعبر')).toBe(1);
+  });
+
+  it('charges less for letters the recognizer confuses', () => {
+    // ص/س costs 0.3, ق/ك 0.4
+    expect(arabicEditDistance('الصراط', 'السراط')).toBeCloseTo(0.3);
+    expect(arabicEditDistance('قل', 'كل')).toBeCloseTo(0.4);
+  });
+
+  it('applies the configured weights', () => {
+    const weights = { ...DEFAULT_SIMILARITY_WEIGHTS, insertion: 0.5, confusableScale: 0 };
+
+    expect(arabicEditDistance('', 'رب', weights)).toBe(1);
+    expect(arabicEditDistance('الصراط', 'السراط', weights)).toBe(0);
+  });
+
+  it('never charges a confusable pair more than a full substitution', () => {
+    const weights = { ...DEFAULT_SIMILARITY_WEIGHTS, substitution: 0.2, confusableScale: 3 };
+
+    expect(arabicEditDistance('قل', 'كل', weights)).toBeCloseTo(0.2);
+  });
+});
+
+describe('calculateSimilarity', () => {
+  it('scales the distance by the longer word', () => {
+    expect(calculateSimilarity('الرحمن', 'الرحمن')).toBe(100);
+    expect(calculateSimilarity('الرحمن', '')).toBe(0);
+    expect(calculateSimilarity('الصراط', 'السراط')).toBeCloseTo(95);
+  });
+});
@@ -0,0 +1,113 @@
+// Letter pairs that Web Speech (ar-SA) commonly swaps, with their substitution cost (0-1).
+// A full mismatch costs 1; these are treated as recognizer spelling noise rather than
+// memorization errors.
+export const CONFUSABLE_LETTERS: [string, string, number][] = [
+  ['ص', 'س', 0.3],
+  ['ض', 'د', 0.3],
+  ['ض', 'ظ', 0.3],
+  ['ظ', 'ز', 0.3],
+  ['ظ', 'ذ', 0.3],
+  ['ث', 'س', 0.3],
+  ['ث', 'ت', 0.4],
+  ['ذ', 'ز', 0.3],
+  ['ذ', 'د', 0.4],
+  ['ح', 'ه', 0.3],
+  ['ع', 'ا', 0.3],
+  ['ع', 'ء', 0.3],
+  ['ء', 'ا', 0.2],
+  ['ؤ', 'و', 0.2],
+  ['ئ', 'ي', 0.2],
+  ['ط', 'ت', 0.3],
+  ['ق', 'ك', 0.4],
+  ['غ', 'خ', 0.5],
+];
+
+export interface SimilarityWeights {
+  insertion: number;
+  deletion: number;
+  substitution: number;
+  // Multiplier for CONFUSABLE_LETTERS costs: 0 = identical, 1 = table value, 1/cost = full error
+  confusableScale: number;
+}
+
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = {
+  insertion: 1,
+  deletion: 1,
+  substitution: 1,
+  confusableScale: 1,
+};
+
+const confusableCosts = new Map<string, number>();
+CONFUSABLE_LETTERS.forEach(([a, b, cost]) => {
+  confusableCosts.set(a + b, cost);
+  confusableCosts.set(b + a, cost);
+});
+
+function substitutionCost(a: string, b: string, weights: SimilarityWeights): number {
+  if (a === b) return 0;
+
+  const confusable = confusableCosts.get(a + b);
+  if (confusable === undefined) return weights.substitution;
+
+  return Math.min(weights.substitution, confusable * weights.confusableScale);
+}
+
+// Weighted Levenshtein distance: confusable letters are cheaper than other substitutions
+export function arabicEditDistance(
+  str1: string,
+  str2: string,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS
+): number {
+  const m = str1.length;
+  const n = str2.length;
+
+  if (m === 0) return n * weights.insertion;
+  if (n === 0) return m * weights.deletion;
+
+  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+
+  for (let i = 0; i <= m; i++) dp[i][0] = i * weights.deletion;
+  for (let j = 0; j <= n; j++) dp[0][j] = j * weights.insertion;
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + weights.deletion,
+        dp[i][j - 1] + weights.insertion,
+        dp[i - 1][j - 1] + substitutionCost(str1[i - 1], str2[j - 1], weights)
+      );
+    }
+  }
+
+  return dp[m][n];
+}
+
+// Calculate similarity (0-100) using the weighted Arabic edit distance
+export function calculateSimilarity(
+  str1: string,
+  str2: string,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS
+): number {
+  if (str1 === str2) return 100;
+  if (str1.length === 0 || str2.length === 0) return 0;
+
+  const distance = arabicEditDistance(str1, str2, weights);
+  const maxLength = Math.max(str1.length, str2.length);
+  return Math.max(0, ((maxLength - distance) / maxLength) * 100);
+}
+
+const WEIGHTS_STORAGE_KEY = 'similarityWeights';
+
+export function loadSimilarityWeights(): SimilarityWeights {
+  try {
+    const saved = localStorage.getItem(WEIGHTS_STORAGE_KEY);
+    if (!saved) return DEFAULT_SIMILARITY_WEIGHTS;
+    return { ...DEFAULT_SIMILARITY_WEIGHTS, ...JSON.parse(saved) };
+  } catch {
+    return DEFAULT_SIMILARITY_WEIGHTS;
+  }
+}
+
+export function saveSimilarityWeights(weights: SimilarityWeights): void {
+  localStorage.setItem(WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+}
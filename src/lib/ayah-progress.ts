@@ -0,0 +1,156 @@
+import { idbGet, idbGetAll, idbPut } from '@/lib/db';
+import type { WordStatus } from '@/lib/recitation-tracker';
+import { HINTED_WORD_PENALTY, countHintedWords } from '@/lib/hints';
+
+// 0 = belum dihafal ... 5 = mutqin
+export type MasteryLevel = 0 | 1 | 2 | 3 | 4 | 5;
+export const MAX_MASTERY: MasteryLevel = 5;
+
+export const MASTERY_LABELS: Record<MasteryLevel, string> = {
+  0: 'Belum hafal',
+  1: 'Baru mulai',
+  2: 'Mulai hafal',
+  3: 'Cukup lancar',
+  4: 'Lancar',
+  5: 'Mutqin',
+};
+
+export interface AyahProgress {
+  key: string;
+  surahNumber: number;
+  ayahNumber: number;
+  attempts: number;
+  lastRecitedAt: number;
+  // Total over all attempts, and for the most recent attempt only
+  wordsMissed: number;
+  lastWordsMissed: number;
+  // Same for words recited only after a hint
+  wordsHinted: number;
+  lastWordsHinted: number;
+  mastery: MasteryLevel;
+}
+
+// Result of reciting one ayah in a session
+export interface AyahAttempt {
+  surahNumber: number;
+  ayahNumber: number;
+  totalWords: number;
+  wordsMissed: number;
+  wordsHinted: number;
+}
+
+export interface SurahProgressSummary {
+  surahNumber: number;
+  recitedAyahs: number;
+  masteryPoints: number;
+}
+
+export function ayahKey(surahNumber: number, ayahNumber: number): string {
+  return `${surahNumber}:${ayahNumber}`;
+}
+
+// Missed words, with hinted words counting partially
+export function attemptPenalty(attempt: AyahAttempt): number {
+  return attempt.wordsMissed + attempt.wordsHinted * HINTED_WORD_PENALTY;
+}
+
+// A perfect attempt moves one level up; missing a word drops one level (two if half the ayah was missed).
+// A single hinted word only holds the level.
+export function nextMastery(current: MasteryLevel, attempt: AyahAttempt): MasteryLevel {
+  const penalty = attemptPenalty(attempt);
+  if (penalty === 0) {
+    return Math.min(MAX_MASTERY, current + 1) as MasteryLevel;
+  }
+  const drop = penalty / attempt.totalWords >= 0.5 ? 2 : penalty >= 1 ? 1 : 0;
+  return Math.max(0, current - drop) as MasteryLevel;
+}
+
+// Only ayahs the user got through (no pending words left) count as an attempt
+export function collectAyahAttempts(wordStatuses: WordStatus[]): AyahAttempt[] {
+  const attempts: AyahAttempt[] = [];
+  let start = 0;
+
+  while (start < wordStatuses.length) {
+    let end = start;
+    while (end + 1 < wordStatuses.length && wordStatuses[end + 1].ayahIndex === wordStatuses[start].ayahIndex) {
+      end++;
+    }
+
+    const words = wordStatuses.slice(start, end + 1);
+    if (words.every(w => w.status !== 'pending')) {
+      attempts.push({
+        surahNumber: words[0].surahNumber,
+        ayahNumber: words[0].ayahNumber,
+        totalWords: words.length,
+        wordsMissed: words.filter(w => w.status === 'incorrect').length,
+        wordsHinted: countHintedWords(words),
+      });
+    }
+    start = end + 1;
+  }
+
+  return attempts;
+}
+
+export async function recordAyahAttempts(attempts: AyahAttempt[], recitedAt = Date.now()): Promise<AyahProgress[]> {
+  const updated: AyahProgress[] = [];
+
+  for (const attempt of attempts) {
+    const key = ayahKey(attempt.surahNumber, attempt.ayahNumber);
+    const previous = await idbGet<AyahProgress>('ayahProgress', key);
+
+    const progress: AyahProgress = {
+      key,
+      surahNumber: attempt.surahNumber,
+      ayahNumber: attempt.ayahNumber,
+      attempts: (previous?.attempts ?? 0) + 1,
+      lastRecitedAt: recitedAt,
+      wordsMissed: (previous?.wordsMissed ?? 0) + attempt.wordsMissed,
+      lastWordsMissed: attempt.wordsMissed,
+      wordsHinted: (previous?.wordsHinted ?? 0) + attempt.wordsHinted,
+      lastWordsHinted: attempt.wordsHinted,
+      mastery: nextMastery(previous?.mastery ?? 0, attempt),
+    };
+
+    await idbPut('ayahProgress', progress);
+    updated.push(progress);
+  }
+
+  return updated;
+}
+
+export function getAllAyahProgress(): Promise<AyahProgress[]> {
+  return idbGetAll<AyahProgress>('ayahProgress');
+}
+
+export async function getAyahProgressFor(ayahs: { surahNumber: number; ayahNumber: number }[]): Promise<Map<string, AyahProgress>> {
+  const result = new Map<string, AyahProgress>();
+  for (const { surahNumber, ayahNumber } of ayahs) {
+    const progress = await idbGet<AyahProgress>('ayahProgress', ayahKey(surahNumber, ayahNumber));
+    if (progress) result.set(progress.key, progress);
+  }
+  return result;
+}
+
+export async function getSurahProgressSummaries(): Promise<Map<number, SurahProgressSummary>> {
+  const summaries = new Map<number, SurahProgressSummary>();
+
+  for (const progress of await getAllAyahProgress()) {
+    const summary = summaries.get(progress.surahNumber) ?? {
+      surahNumber: progress.surahNumber,
+      recitedAyahs: 0,
+      masteryPoints: 0,
+    };
+    summary.recitedAyahs++;
+    summary.masteryPoints += progress.mastery;
+    summaries.set(progress.surahNumber, summary);
+  }
+
+  return summaries;
+}
+
+// 0..1, where 1 means every ayah of the surah is mutqin
+export function getSurahMasteryRatio(summary: SurahProgressSummary | undefined, numberOfAyahs: number): number {
+  if (!summary || numberOfAyahs === 0) return 0;
+  return Math.min(1, summary.masteryPoints / (numberOfAyahs * MAX_MASTERY));
+}
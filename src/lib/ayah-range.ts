@@ -0,0 +1,49 @@
+export interface AyahRange {
+  from: number;
+  to: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Keep a range inside 1..numberOfAyahs with from <= to
+export function normalizeAyahRange(range: AyahRange, numberOfAyahs: number): AyahRange {
+  const from = clamp(Math.floor(range.from) || 1, 1, numberOfAyahs);
+  const to = clamp(Math.floor(range.to) || numberOfAyahs, from, numberOfAyahs);
+  return { from, to };
+}
+
+// Accepts the path segment ("255-257" or "255") or ?from=&to= query params; defaults to the whole surah
+export function parseAyahRange(
+  segment: string | undefined,
+  searchParams: URLSearchParams,
+  numberOfAyahs: number
+): AyahRange {
+  let from = Number(searchParams.get('from')) || 1;
+  let to = Number(searchParams.get('to')) || numberOfAyahs;
+
+  const match = segment?.match(/^(\d+)(?:-(\d+))?$/);
+  if (match) {
+    from = Number(match[1]);
+    to = match[2] ? Number(match[2]) : from;
+  }
+
+  return normalizeAyahRange({ from, to }, numberOfAyahs);
+}
+
+export function isFullSurah(range: AyahRange, numberOfAyahs: number): boolean {
+  return range.from === 1 && range.to === numberOfAyahs;
+}
+
+// "255" or "255-257"
+export function formatAyahRange(range: AyahRange): string {
+  return range.from === range.to ? `${range.from}` : `${range.from}-${range.to}`;
+}
+
+export function getRecitePath(surahNumber: number, range?: AyahRange, numberOfAyahs?: number): string {
+  if (!range || (numberOfAyahs !== undefined && isFullSurah(range, numberOfAyahs))) {
+    return `/recite/${surahNumber}`;
+  }
+  return `/recite/${surahNumber}/${formatAyahRange(range)}`;
+}
@@ -0,0 +1,140 @@
+// Minimal promise wrapper around IndexedDB, shared by every persistent store in the app.
+// Add a store by appending it to STORE_DEFINITIONS and bumping DB_VERSION.
+
+const DB_NAME = 'hafalin';
+const DB_VERSION = 7;
+
+interface StoreDefinition {
+  name: string;
+  keyPath?: string;
+}
+
+const STORE_DEFINITIONS: StoreDefinition[] = [
+  { name: 'meta' },
+  { name: 'surahList' },
+  { name: 'surahDetails', keyPath: 'number' },
+  { name: 'ayahProgress', keyPath: 'key' },
+  { name: 'reviewSchedule', keyPath: 'key' },
+  { name: 'sessions', keyPath: 'id' },
+  { name: 'mistakes', keyPath: 'key' },
+  { name: 'quizResults', keyPath: 'id' },
+  { name: 'sessionAudio', keyPath: 'sessionId' },
+];
+
+export type StoreName = 'meta' | 'surahList' | 'surahDetails' | 'ayahProgress' | 'reviewSchedule' | 'sessions' | 'mistakes' | 'quizResults' | 'sessionAudio';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error('IndexedDB tidak tersedia'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORE_DEFINITIONS.forEach(({ name, keyPath }) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, keyPath ? { keyPath } : undefined);
+        }
+      });
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // The blocked open went through after all, but callers already got the error
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // Another tab wants to upgrade: close so it is not blocked, and reopen on the next access
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // An older version is still open in another tab that did not close it
+    request.onblocked = () => {
+      blocked = true;
+      reject(new Error('Database diblokir oleh tab lain, tutup tab Hafalin yang lain lalu coba lagi'));
+    };
+  });
+
+  // Allow a later retry if opening failed or was blocked
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return promisify(run(tx.objectStore(storeName)));
+}
+
+export function idbGet<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', store => store.get(key));
+}
+
+export function idbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore(storeName, 'readonly', store => store.getAll());
+}
+
+export function idbGetAllKeys(storeName: StoreName): Promise<IDBValidKey[]> {
+  return withStore(storeName, 'readonly', store => store.getAllKeys());
+}
+
+export function idbCount(storeName: StoreName): Promise<number> {
+  return withStore(storeName, 'readonly', store => store.count());
+}
+
+// `key` is only needed for stores without a keyPath
+export function idbPut<T>(storeName: StoreName, value: T, key?: IDBValidKey): Promise<IDBValidKey> {
+  return withStore(storeName, 'readwrite', store => store.put(value, key));
+}
+
+export function idbDelete(storeName: StoreName, key: IDBValidKey): Promise<undefined> {
+  return withStore(storeName, 'readwrite', store => store.delete(key));
+}
+
+export function idbClear(storeName: StoreName): Promise<undefined> {
+  return withStore(storeName, 'readwrite', store => store.clear());
+}
+
+// Delete one key from several stores in a single transaction, so they are removed together or not at all
+export async function idbDeleteFromStores(storeNames: StoreName[], key: IDBValidKey): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, 'readwrite');
+  storeNames.forEach(name => tx.objectStore(name).delete(key));
+
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,45 @@
+import type { WordStatus } from '@/lib/recitation-tracker';
+
+export type DisplayMode = 'blind' | 'read-along' | 'first-word' | 'faded';
+
+export interface DisplayModeOption {
+  id: DisplayMode;
+  name: string;
+  description: string;
+}
+
+export const DISPLAY_MODES: DisplayModeOption[] = [
+  { id: 'blind', name: 'Tanpa Teks', description: 'Kata muncul setelah dibaca' },
+  { id: 'first-word', name: 'Awal Ayat', description: 'Hanya kata pertama tiap ayat yang terlihat' },
+  { id: 'faded', name: 'Samar', description: 'Teks terlihat samar sebagai pengingat' },
+  { id: 'read-along', name: 'Baca Teks', description: 'Seluruh teks terlihat, cocok untuk pemula' },
+];
+
+// How a word is rendered: revealed once recited; before that depending on the display mode
+export type WordVisibility = 'revealed' | 'ghost' | 'faint' | 'hidden';
+
+const DISPLAY_MODE_STORAGE_KEY = 'displayMode';
+
+export function getWordVisibility(mode: DisplayMode, word: WordStatus, isAyahStart: boolean): WordVisibility {
+  if (word.status !== 'pending') return 'revealed';
+
+  switch (mode) {
+    case 'read-along':
+      return 'ghost';
+    case 'faded':
+      return 'faint';
+    case 'first-word':
+      return isAyahStart ? 'ghost' : 'hidden';
+    default:
+      return 'hidden';
+  }
+}
+
+export function loadDisplayMode(): DisplayMode {
+  const saved = localStorage.getItem(DISPLAY_MODE_STORAGE_KEY);
+  return DISPLAY_MODES.some(m => m.id === saved) ? (saved as DisplayMode) : 'blind';
+}
+
+export function saveDisplayMode(mode: DisplayMode): void {
+  localStorage.setItem(DISPLAY_MODE_STORAGE_KEY, mode);
+}
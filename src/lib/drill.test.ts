@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { DrillSession, buildDrillSteps, formatDrillStep } from '@/lib/drill';
+import { fatihahAyahs } from '@/test/quran-fixtures';
+
+const AYAHS = fatihahAyahs(3, 4);
+
+// Recite the current pass and score it
+function recite(drill: DrillSession, transcript: string) {
+  drill.tracker.syncTranscript(transcript);
+  return drill.completePass();
+}
+
+describe('buildDrillSteps', () => {
+  it('chains ayahs according to the pattern', () => {
+    expect(buildDrillSteps(3, 'single')).toEqual([
+      { from: 0, to: 0 }, { from: 1, to: 1 }, { from: 2, to: 2 },
+    ]);
+    expect(buildDrillSteps(3, 'pairs')).toEqual([
+      { from: 0, to: 0 }, { from: 1, to: 1 }, { from: 0, to: 1 }, { from: 2, to: 2 },
+    ]);
+    expect(buildDrillSteps(3, 'cumulative')).toEqual([
+      { from: 0, to: 0 }, { from: 1, to: 1 }, { from: 0, to: 1 }, { from: 2, to: 2 }, { from: 0, to: 2 },
+    ]);
+  });
+
+  it('labels a step with its ayah range', () => {
+    expect(formatDrillStep({ from: 0, to: 1 }, AYAHS)).toBe('Ayat 3-4');
+  });
+});
+
+describe('DrillSession', () => {
+  it('moves to the next step after enough successful passes', () => {
+    const drill = new DrillSession(AYAHS, { repeatCount: 2, pattern: 'pairs' });
+
+    expect(recite(drill, 'الرحمن الرحيم')).toBe('passed');
+    expect(drill.progress).toMatchObject({ stepIndex: 0, repetitions: 1, lastPass: 'passed' });
+    // The next pass starts with a fresh tracker
+    expect(drill.tracker.currentWordIndex).toBe(0);
+
+    recite(drill, 'الرحمن الرحيم');
+    expect(drill.progress).toMatchObject({ stepIndex: 1, repetitions: 0, step: { from: 1, to: 1 } });
+    expect(drill.tracker.wordStatuses.map(w => w.word)).toEqual(['مالك', 'يوم', 'الدين']);
+  });
+
+  it('does not count a pass recited with a hint', () => {
+    const drill = new DrillSession(AYAHS, { repeatCount: 2, pattern: 'single' });
+    recite(drill, 'الرحمن الرحيم');
+    recite(drill, 'الرحمن الرحيم');
+
+    drill.tracker.requestHint();
+    expect(recite(drill, 'مالك يوم الدين')).toBe('failed');
+    expect(drill.progress).toMatchObject({ stepIndex: 1, repetitions: 0, lastPass: 'failed' });
+    expect(drill.takePasses()).toHaveLength(3);
+    expect(drill.takePasses()).toEqual([]);
+  });
+
+  it('starts an interrupted pass over without losing the repetitions', () => {
+    const drill = new DrillSession(AYAHS, { repeatCount: 3, pattern: 'single' });
+    recite(drill, 'الرحمن الرحيم');
+
+    expect(recite(drill, 'الرحمن')).toBeNull();
+    drill.resumePass();
+
+    expect(drill.tracker.wordStatuses.every(w => w.status === 'pending')).toBe(true);
+    expect(drill.progress).toMatchObject({ stepIndex: 0, repetitions: 1 });
+    expect(recite(drill, 'الرحمن الرحيم')).toBe('passed');
+    expect(drill.progress.repetitions).toBe(2);
+  });
+
+  it('finishes after the last step and can be restarted', () => {
+    const drill = new DrillSession(AYAHS, { repeatCount: 1, pattern: 'single' });
+    recite(drill, 'الرحمن الرحيم');
+    recite(drill, 'مالك يوم الدين');
+
+    expect(drill.isFinished).toBe(true);
+    // The finished pass stays visible
+    expect(drill.tracker.isComplete).toBe(true);
+    expect(drill.completePass()).toBeNull();
+
+    drill.restart();
+    expect(drill.isFinished).toBe(false);
+    expect(drill.progress).toMatchObject({ stepIndex: 0, repetitions: 0, lastPass: null });
+  });
+});
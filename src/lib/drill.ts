@@ -0,0 +1,229 @@
+import { SectionAyah } from '@/lib/quran-api';
+import { formatAyahRange } from '@/lib/ayah-range';
+import { AyahProgress, collectAyahAttempts, recordAyahAttempts } from '@/lib/ayah-progress';
+import { recordMistakes } from '@/lib/mistakes';
+import { getIndonesianName } from '@/lib/surah-translations';
+import {
+  RecitationTracker,
+  RecitationTrackerOptions,
+  WordStatus,
+  buildWordStatuses,
+} from '@/lib/recitation-tracker';
+
+type DrillAyah = Pick<SectionAyah, 'text' | 'numberInSurah' | 'surah'>;
+
+// 'single': 1, 2, 3, ...
+// 'pairs': 1, 2, 1+2, 3, 4, 3+4, ...
+// 'cumulative': 1, 2, 1+2, 3, 1-3, 4, 1-4, ...
+export type DrillChainPattern = 'single' | 'pairs' | 'cumulative';
+
+export interface DrillChainOption {
+  id: DrillChainPattern;
+  name: string;
+  description: string;
+}
+
+export const DRILL_CHAIN_PATTERNS: DrillChainOption[] = [
+  { id: 'single', name: 'Satu per Satu', description: 'Setiap ayat diulang, lalu lanjut ke ayat berikutnya' },
+  { id: 'pairs', name: 'Berpasangan', description: 'Ayat 1, ayat 2, lalu ayat 1+2 bersama' },
+  { id: 'cumulative', name: 'Bersambung', description: 'Setiap ayat baru disambung dengan semua ayat sebelumnya' },
+];
+
+export const DRILL_REPEAT_OPTIONS = [3, 5, 7, 10, 15, 20];
+
+export interface DrillSettings {
+  repeatCount: number;
+  pattern: DrillChainPattern;
+}
+
+export const DEFAULT_DRILL_SETTINGS: DrillSettings = { repeatCount: 5, pattern: 'pairs' };
+
+const DRILL_SETTINGS_STORAGE_KEY = 'drillSettings';
+
+// Positions (0-based, inclusive) in the session's ayah list recited together in one pass
+export interface DrillStep {
+  from: number;
+  to: number;
+}
+
+export type DrillPassResult = 'passed' | 'failed';
+
+export interface DrillProgress {
+  stepIndex: number;
+  stepCount: number;
+  step: DrillStep;
+  repetitions: number; // Successful passes of the current step
+  repeatCount: number;
+  isFinished: boolean;
+  lastPass: DrillPassResult | null;
+}
+
+export function buildDrillSteps(ayahCount: number, pattern: DrillChainPattern): DrillStep[] {
+  const steps: DrillStep[] = [];
+
+  for (let i = 0; i < ayahCount; i++) {
+    steps.push({ from: i, to: i });
+
+    if (pattern === 'pairs' && i % 2 === 1) {
+      steps.push({ from: i - 1, to: i });
+    } else if (pattern === 'cumulative' && i > 0) {
+      steps.push({ from: 0, to: i });
+    }
+  }
+
+  return steps;
+}
+
+// "Ayat 3", "Ayat 1-2" or "Al-Fatihah 7 – Al-Baqarah 1" when the step spans two surahs
+export function formatDrillStep(step: DrillStep, ayahs: DrillAyah[]): string {
+  const first = ayahs[step.from];
+  const last = ayahs[step.to];
+  if (!first || !last) return '';
+
+  if (first.surah.number !== last.surah.number) {
+    return `${getIndonesianName(first.surah.number)} ${first.numberInSurah} – ${getIndonesianName(last.surah.number)} ${last.numberInSurah}`;
+  }
+  return `Ayat ${formatAyahRange({ from: first.numberInSurah, to: last.numberInSurah })}`;
+}
+
+export function loadDrillSettings(): DrillSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DRILL_SETTINGS_STORAGE_KEY) ?? 'null');
+    return {
+      repeatCount: DRILL_REPEAT_OPTIONS.includes(saved?.repeatCount)
+        ? saved.repeatCount
+        : DEFAULT_DRILL_SETTINGS.repeatCount,
+      pattern: DRILL_CHAIN_PATTERNS.some(p => p.id === saved?.pattern)
+        ? saved.pattern
+        : DEFAULT_DRILL_SETTINGS.pattern,
+    };
+  } catch {
+    return DEFAULT_DRILL_SETTINGS;
+  }
+}
+
+export function saveDrillSettings(settings: DrillSettings): void {
+  localStorage.setItem(DRILL_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Repetition drill (tikrar) on top of RecitationTracker.
+ *
+ * Each step is recited `repeatCount` times without a skipped or hinted word before the
+ * chaining pattern unlocks the next step. Every finished pass starts over with a fresh
+ * tracker for the step, so the UI only ever shows the pass in progress.
+ */
+export class DrillSession {
+  private ayahs: DrillAyah[];
+  private settings: DrillSettings;
+  private trackerOptions: RecitationTrackerOptions;
+  private steps: DrillStep[];
+  private stepIndex = 0;
+  private repetitions = 0;
+  private lastPass: DrillPassResult | null = null;
+  private finishedPasses: WordStatus[][] = [];
+  private activeTracker: RecitationTracker;
+
+  constructor(ayahs: DrillAyah[], settings: DrillSettings, trackerOptions: RecitationTrackerOptions = {}) {
+    this.ayahs = ayahs;
+    this.settings = settings;
+    this.trackerOptions = trackerOptions;
+    this.steps = buildDrillSteps(ayahs.length, settings.pattern);
+    this.activeTracker = this.createTracker();
+  }
+
+  get tracker(): RecitationTracker {
+    return this.activeTracker;
+  }
+
+  // Passes recited to the end (successful or not) since the last call, for persisting
+  takePasses(): WordStatus[][] {
+    const passes = this.finishedPasses;
+    this.finishedPasses = [];
+    return passes;
+  }
+
+  get isFinished(): boolean {
+    return this.stepIndex === this.steps.length - 1 && this.repetitions >= this.settings.repeatCount;
+  }
+
+  get progress(): DrillProgress {
+    return {
+      stepIndex: this.stepIndex,
+      stepCount: this.steps.length,
+      step: this.steps[this.stepIndex],
+      repetitions: this.repetitions,
+      repeatCount: this.settings.repeatCount,
+      isFinished: this.isFinished,
+      lastPass: this.lastPass,
+    };
+  }
+
+  setTrackerOptions(options: RecitationTrackerOptions): void {
+    this.trackerOptions = options;
+    if (options.thresholds) this.activeTracker.setThresholds(options.thresholds);
+    if (options.weights) this.activeTracker.setSimilarityWeights(options.weights);
+  }
+
+  // Call after the tracker consumed new words. Once the pass reached its last word it is
+  // scored and the next pass (or step) begins; null while the pass is still in progress.
+  // The tracker of the very last pass is kept so the UI can show the finished drill.
+  completePass(): DrillPassResult | null {
+    const tracker = this.activeTracker;
+    if (!tracker.isComplete || this.isFinished) return null;
+
+    const words = tracker.wordStatuses;
+    const result: DrillPassResult = words.every(w => w.status === 'correct' && w.hintLevel === 0)
+      ? 'passed'
+      : 'failed';
+    this.finishedPasses.push(words);
+    this.lastPass = result;
+
+    if (result === 'passed') this.repetitions++;
+    if (this.isFinished) return result;
+
+    if (this.repetitions >= this.settings.repeatCount) {
+      this.stepIndex++;
+      this.repetitions = 0;
+      this.activeTracker = this.createTracker();
+    } else {
+      tracker.reset();
+    }
+
+    return result;
+  }
+
+  // Start the pass in progress over, e.g. after the microphone was stopped mid-pass;
+  // the step and its repetition count are kept
+  resumePass(): void {
+    this.activeTracker.reset();
+  }
+
+  // Back to the first step; finished passes are kept until taken
+  restart(): void {
+    this.stepIndex = 0;
+    this.repetitions = 0;
+    this.lastPass = null;
+    this.activeTracker = this.createTracker();
+  }
+
+  private createTracker(): RecitationTracker {
+    const step = this.steps[this.stepIndex];
+    const ayahs = step ? this.ayahs.slice(step.from, step.to + 1) : [];
+    return new RecitationTracker(buildWordStatuses(ayahs), this.trackerOptions);
+  }
+}
+
+// Persist every finished drill pass as an attempt; passes are recorded one after another
+// so repeated ayahs accumulate instead of overwriting each other
+export async function recordDrillPasses(passes: WordStatus[][], recitedAt = Date.now()): Promise<AyahProgress[]> {
+  const updated = new Map<string, AyahProgress>();
+
+  for (const pass of passes) {
+    await recordMistakes(pass, recitedAt);
+    const progress = await recordAyahAttempts(collectAyahAttempts(pass), recitedAt);
+    progress.forEach(p => updated.set(p.key, p));
+  }
+
+  return [...updated.values()];
+}
@@ -0,0 +1,135 @@
+import { RECOVERABLE_WEB_SPEECH_ERRORS, RecognizerEngine, RecognizerHandlers } from '@/lib/recognizer-types';
+import type { TranscriptHypothesis } from '@/lib/recitation-tracker';
+
+// Replays a scripted timeline instead of listening to the microphone, so a recitation can be
+// run without reciting: open `/recite/1?recognizer=fake&script=<JSON>` or set
+// `window.__fakeRecognizerScript` before the page loads (e.g. Playwright's addInitScript)
+
+export type FakeRecognizerEvent =
+  | { type: 'partial'; text: string; delayMs?: number }
+  // `alternatives` are the other n-best hypotheses of the utterance
+  | { type: 'final'; text: string; confidence?: number; alternatives?: TranscriptHypothesis[]; delayMs?: number }
+  // The browser stopping on its own (silence on Chrome mobile); the hook is expected to restart
+  | { type: 'end'; delayMs?: number }
+  // Followed by an end, as with Web Speech (e.g. no-speech, network, aborted, not-allowed)
+  | { type: 'error'; code: string; delayMs?: number };
+
+// Delay before an event without `delayMs`, counted from the previous event
+const DEFAULT_EVENT_DELAY_MS = 300;
+
+declare global {
+  interface Window {
+    __fakeRecognizerScript?: FakeRecognizerEvent[];
+  }
+}
+
+/**
+ * Each start() resumes the timeline where the last run stopped, so an `end` or `error` event
+ * only pauses the script until the hook restarts the engine. Once the script is exhausted the
+ * engine keeps "listening" silently, like a real recognizer.
+ */
+export class FakeRecognizer implements RecognizerEngine {
+  readonly id = 'fake';
+  readonly isSupported = true;
+  private handlers: RecognizerHandlers | null = null;
+  private cursor = 0;
+  private running = false;
+  private timeout: number | null = null;
+
+  constructor(private readonly script: FakeRecognizerEvent[]) {}
+
+  setHandlers(handlers: RecognizerHandlers): void {
+    this.handlers = handlers;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(() => {
+      this.handlers?.onStart();
+      this.scheduleNext();
+    }, 0);
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.end();
+  }
+
+  dispose(): void {
+    this.clearTimeout();
+    this.running = false;
+    this.handlers = null;
+  }
+
+  private scheduleNext(): void {
+    const event = this.script[this.cursor];
+    if (!event) return;
+
+    this.schedule(() => {
+      this.cursor++;
+      this.play(event);
+    }, event.delayMs ?? DEFAULT_EVENT_DELAY_MS);
+  }
+
+  private play(event: FakeRecognizerEvent): void {
+    switch (event.type) {
+      case 'partial':
+        this.handlers?.onPartial(event.text);
+        break;
+      case 'final':
+        this.handlers?.onFinal([
+          { transcript: event.text, confidence: event.confidence ?? 1 },
+          ...(event.alternatives ?? []),
+        ]);
+        this.handlers?.onPartial('');
+        break;
+      case 'error':
+        this.handlers?.onError({
+          code: event.code,
+          recoverable: RECOVERABLE_WEB_SPEECH_ERRORS.includes(event.code),
+        });
+        this.end();
+        return;
+      case 'end':
+        this.end();
+        return;
+    }
+
+    this.scheduleNext();
+  }
+
+  private end(): void {
+    this.clearTimeout();
+    this.running = false;
+    this.handlers?.onEnd();
+  }
+
+  private schedule(callback: () => void, delayMs: number): void {
+    this.clearTimeout();
+    this.timeout = window.setTimeout(callback, delayMs);
+  }
+
+  private clearTimeout(): void {
+    if (this.timeout) {
+      window.clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+}
+
+// Script from the URL (`?recognizer=fake&script=...`) or the test harness; null when the
+// fake recognizer was not requested
+export function getFakeRecognizerScript(): FakeRecognizerEvent[] | null {
+  if (window.__fakeRecognizerScript) return window.__fakeRecognizerScript;
+
+  const params = new URLSearchParams(window.location.search);
+  if (params.get('recognizer') !== 'fake') return null;
+
+  try {
+    const script = JSON.parse(params.get('script') || '[]');
+    return Array.isArray(script) ? script : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,50 @@
+import { HintLevel, WordStatus } from '@/lib/recitation-tracker';
+
+export const HINT_LEVEL_LABELS: Record<HintLevel, string> = {
+  0: 'Tanpa petunjuk',
+  1: 'Huruf pertama',
+  2: 'Satu kata',
+  3: 'Dua kata',
+};
+
+// A hinted word counts as half a missed word for mastery and murajaah scheduling
+export const HINTED_WORD_PENALTY = 0.5;
+
+const HINT_DELAY_STORAGE_KEY = 'hintDelaySeconds';
+export const DEFAULT_HINT_DELAY_SECONDS = 6;
+
+// First grapheme including its harakat, so the hint shows e.g. "بِ" rather than a bare "ب"
+function firstLetter(word: string): string {
+  const match = word.match(/^.[\u064B-\u065F\u0670\u06D6-\u06ED]*/);
+  return match ? match[0] : word.charAt(0);
+}
+
+export function getHintText(words: WordStatus[], index: number): string {
+  const word = words[index];
+  if (!word || word.hintLevel === 0) return '';
+
+  if (word.hintLevel === 1) return `${firstLetter(word.word)}…`;
+  if (word.hintLevel === 2 || !words[index + 1]) return word.word;
+  return `${word.word} ${words[index + 1].word}`;
+}
+
+// Words recited correctly but only after a hint
+export function countHintedWords(words: WordStatus[]): number {
+  return words.filter(w => w.status === 'correct' && w.hintLevel > 0).length;
+}
+
+// 0 disables the automatic hint after silence
+export function loadHintDelaySeconds(): number {
+  try {
+    const stored = localStorage.getItem(HINT_DELAY_STORAGE_KEY);
+    if (stored === null) return DEFAULT_HINT_DELAY_SECONDS;
+    const value = Number(stored);
+    return Number.isFinite(value) && value >= 0 ? value : DEFAULT_HINT_DELAY_SECONDS;
+  } catch {
+    return DEFAULT_HINT_DELAY_SECONDS;
+  }
+}
+
+export function saveHintDelaySeconds(seconds: number): void {
+  localStorage.setItem(HINT_DELAY_STORAGE_KEY, String(seconds));
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { collectMistakes } from '@/lib/mistakes';
+import { WordStatus, WordStatusValue, buildWordStatuses } from '@/lib/recitation-tracker';
+import { fatihahAyahs } from '@/test/quran-fixtures';
+
+const AYAHS = fatihahAyahs(2, 5);
+
+function withStatuses(statuses: WordStatusValue[]): WordStatus[] {
+  return buildWordStatuses(AYAHS).map((w, i) => ({ ...w, status: statuses[i] ?? 'pending' }));
+}
+
+describe('collectMistakes', () => {
+  it('records a word skipped inside an ayah', () => {
+    const mistakes = collectMistakes(withStatuses(['correct', 'correct', 'incorrect', 'correct']));
+
+    expect(mistakes).toEqual([
+      { kind: 'word', surahNumber: 1, ayahNumber: 2, wordIndex: 2, word: 'رب' },
+    ]);
+  });
+
+  it('records each of two adjacent skipped ayahs once', () => {
+    const mistakes = collectMistakes(withStatuses([
+      'correct', 'correct', 'correct', 'correct',
+      'incorrect', 'incorrect',
+      'incorrect', 'incorrect', 'incorrect',
+      'correct', 'correct',
+    ]));
+
+    expect(mistakes).toEqual([
+      {
+        kind: 'transition',
+        surahNumber: 1,
+        ayahNumber: 3,
+        wordIndex: 0,
+        word: 'الرحمن',
+        previousSurahNumber: 1,
+        previousAyahNumber: 2,
+      },
+      {
+        kind: 'transition',
+        surahNumber: 1,
+        ayahNumber: 4,
+        wordIndex: 0,
+        word: 'مالك',
+        previousSurahNumber: 1,
+        previousAyahNumber: 3,
+      },
+    ]);
+  });
+});
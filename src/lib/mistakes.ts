@@ -0,0 +1,98 @@
+import { idbDelete, idbGet, idbGetAll, idbPut } from '@/lib/db';
+import { getRecitePath } from '@/lib/ayah-range';
+import { groupWordsByAyah } from '@/lib/session-history';
+import type { WordStatus } from '@/lib/recitation-tracker';
+
+// 'word': a single word skipped inside an ayah
+// 'transition': the start of an ayah skipped right after the previous ayah was recited
+export type MistakeKind = 'word' | 'transition';
+
+export interface MistakeEntry {
+  key: string;
+  kind: MistakeKind;
+  surahNumber: number;
+  ayahNumber: number;
+  // Position of the word within its ayah (0-based) and its text
+  wordIndex: number;
+  word: string;
+  // For transitions: the ayah recited just before
+  previousSurahNumber?: number;
+  previousAyahNumber?: number;
+  count: number;
+  firstMissedAt: number;
+  lastMissedAt: number;
+}
+
+export type MistakeOccurrence = Omit<MistakeEntry, 'key' | 'count' | 'firstMissedAt' | 'lastMissedAt'>;
+
+function mistakeKey(occurrence: MistakeOccurrence): string {
+  const { kind, surahNumber, ayahNumber, wordIndex } = occurrence;
+  return kind === 'word' ? `w:${surahNumber}:${ayahNumber}:${wordIndex}` : `t:${surahNumber}:${ayahNumber}`;
+}
+
+// An ayah skipped entirely is recorded once, as a transition from the ayah before it (recited or
+// skipped as well, as in a long jump), not as one mistake per word
+export function collectMistakes(wordStatuses: WordStatus[]): MistakeOccurrence[] {
+  const occurrences: MistakeOccurrence[] = [];
+  const fullySkipped = new Set(
+    groupWordsByAyah(wordStatuses)
+      .filter(words => words.every(w => w.status === 'incorrect'))
+      .map(words => words[0].ayahIndex)
+  );
+  let wordIndex = 0;
+
+  wordStatuses.forEach((w, idx) => {
+    const previous = wordStatuses[idx - 1];
+    const isAyahStart = idx === 0 || previous.isLastWord;
+    wordIndex = isAyahStart ? 0 : wordIndex + 1;
+
+    if (w.status !== 'incorrect') return;
+
+    const base = { surahNumber: w.surahNumber, ayahNumber: w.ayahNumber, wordIndex, word: w.word };
+    if (isAyahStart && (previous?.status === 'correct' || fullySkipped.has(w.ayahIndex))) {
+      occurrences.push({
+        ...base,
+        kind: 'transition',
+        previousSurahNumber: previous?.surahNumber,
+        previousAyahNumber: previous?.ayahNumber,
+      });
+    } else if (!fullySkipped.has(w.ayahIndex)) {
+      occurrences.push({ ...base, kind: 'word' });
+    }
+  });
+
+  return occurrences;
+}
+
+export async function recordMistakes(wordStatuses: WordStatus[], missedAt = Date.now()): Promise<void> {
+  for (const occurrence of collectMistakes(wordStatuses)) {
+    const key = mistakeKey(occurrence);
+    const previous = await idbGet<MistakeEntry>('mistakes', key);
+
+    await idbPut('mistakes', {
+      ...occurrence,
+      key,
+      count: (previous?.count ?? 0) + 1,
+      firstMissedAt: previous?.firstMissedAt ?? missedAt,
+      lastMissedAt: missedAt,
+    });
+  }
+}
+
+// Most frequent first, then most recent
+export async function listMistakes(): Promise<MistakeEntry[]> {
+  const entries = await idbGetAll<MistakeEntry>('mistakes');
+  return entries.sort((a, b) => b.count - a.count || b.lastMissedAt - a.lastMissedAt);
+}
+
+export async function deleteMistake(key: string): Promise<void> {
+  await idbDelete('mistakes', key);
+}
+
+// A focused drill on the ayah; transitions within a surah also include the ayah before it
+export function getMistakeDrillPath(entry: MistakeEntry): string {
+  const from = entry.kind === 'transition' && entry.previousSurahNumber === entry.surahNumber
+    ? entry.previousAyahNumber
+    : entry.ayahNumber;
+  return `${getRecitePath(entry.surahNumber, { from, to: entry.ayahNumber })}?latihan=1`;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { Surah } from '@/lib/quran-api';
+import { ayahKey } from '@/lib/ayah-progress';
+import { buildQuranIndex } from '@/lib/quran-locator';
+import { buildSimilarVerseMap, detectDrift } from '@/lib/mutashabihat';
+import { fatihahAyahs, makeAyah } from '@/test/quran-fixtures';
+
+const AL_BAQARAH: Surah = {
+  number: 2,
+  name: 'سُورَةُ البَقَرَةِ',
+  englishName: 'Al-Baqara',
+  englishNameTranslation: 'The Cow',
+  numberOfAyahs: 286,
+  revelationType: 'Medinan',
+};
+
+// Al-Baqarah 48 and 123 differ only in the order of "شفاعه" and "عدل"
+const BAQARAH_47 = makeAyah(AL_BAQARAH, 47, 'يا بني اسرائيل اذكروا نعمتي التي انعمت عليكم واني فضلتكم علي العالمين');
+const BAQARAH_48 = makeAyah(AL_BAQARAH, 48, 'واتقوا يوما لا تجزي نفس عن نفس شيئا ولا يقبل منها شفاعه ولا يؤخذ منها عدل ولا هم ينصرون');
+const BAQARAH_123 = makeAyah(AL_BAQARAH, 123, 'واتقوا يوما لا تجزي نفس عن نفس شيئا ولا يقبل منها عدل ولا تنفعها شفاعه ولا هم ينصرون');
+
+const INDEX = buildQuranIndex([...fatihahAyahs(), BAQARAH_47, BAQARAH_48, BAQARAH_123]);
+
+describe('buildSimilarVerseMap', () => {
+  it('links ayahs with nearly the same wording both ways', () => {
+    const map = buildSimilarVerseMap(INDEX);
+
+    expect(map.get(ayahKey(2, 48))?.map(s => s.ayah.numberInSurah)).toEqual([123]);
+    expect(map.get(ayahKey(2, 123))?.map(s => s.ayah.numberInSurah)).toEqual([48]);
+    expect(map.get(ayahKey(2, 48))?.[0].similarity).toBeGreaterThan(0.6);
+  });
+
+  it('leaves out ayahs that only share a phrase', () => {
+    const map = buildSimilarVerseMap(INDEX);
+
+    // The basmalah and ayah 3 share "الرحمن الرحيم", which is not enough
+    expect(map.has(ayahKey(1, 1))).toBe(false);
+    expect(map.has(ayahKey(1, 3))).toBe(false);
+    expect(map.has(ayahKey(2, 47))).toBe(false);
+  });
+});
+
+describe('detectDrift', () => {
+  const siblings = [{ ayah: BAQARAH_123, similarity: 0.8 }];
+
+  it('reports the sibling whose differing words were recited', () => {
+    const drift = detectDrift('ولا يقبل منها عدل ولا تنفعها شفاعه', BAQARAH_48, siblings);
+
+    expect(drift?.numberInSurah).toBe(123);
+  });
+
+  it('stays quiet while the expected ayah is recited', () => {
+    expect(detectDrift('ولا يقبل منها شفاعه ولا يؤخذ منها عدل', BAQARAH_48, siblings)).toBeNull();
+    // The shared opening cannot tell the two apart
+    expect(detectDrift('واتقوا يوما لا تجزي نفس', BAQARAH_48, siblings)).toBeNull();
+  });
+
+  it('needs a few words', () => {
+    expect(detectDrift('عدل ولا', BAQARAH_48, siblings)).toBeNull();
+  });
+});
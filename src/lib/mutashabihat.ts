@@ -0,0 +1,196 @@
+import { DEFAULT_SIMILARITY_WEIGHTS, SimilarityWeights } from '@/lib/arabic-similarity';
+import { SectionAyah, normalizeArabic, validateRecitation } from '@/lib/quran-api';
+import { ayahKey } from '@/lib/ayah-progress';
+import { QuranIndex, buildQuranIndex } from '@/lib/quran-locator';
+import { QURAN_CACHE_VERSION, getCompleteCachedQuran } from '@/lib/quran-cache';
+import { flattenSurahs } from '@/lib/quran-providers';
+import { stripBasmalah } from '@/lib/recitation-session';
+import { idbGet, idbPut } from '@/lib/db';
+
+// Mutashabihat: ayahs whose wording is (nearly) the same as another ayah, where students
+// easily continue into the wrong one
+
+// Dice coefficient over the ayahs' word bigrams
+const MIN_SIMILARITY = 0.6;
+const MIN_SHARED_GRAMS = 2;
+
+// Bigrams such as "ان الله" appear in hundreds of ayahs and say nothing about similarity;
+// they are not used to find candidates (but still count once a candidate is found)
+const COMMON_GRAM_LIMIT = 150;
+
+// Recent words compared against the expected ayah and its siblings
+const DRIFT_QUERY_WORDS = 6;
+const MIN_DRIFT_MATCHED_WORDS = 3;
+
+export interface SimilarVerse {
+  ayah: SectionAyah;
+  similarity: number; // 0-1
+}
+
+// ayahKey -> similar ayahs elsewhere in the Quran, most similar first
+export type SimilarVerseMap = Map<string, SimilarVerse[]>;
+
+// Similar ayahs by position in the index: [position, [[otherPosition, similarity], ...]]
+type SimilarPositions = [number, [number, number][]][];
+
+function findSimilarPositions(index: QuranIndex, position: number): [number, number][] {
+  const grams = index.grams[position];
+  const candidates = new Set<number>();
+  grams.forEach(gram => {
+    const list = index.postings.get(gram);
+    if (!list || list.length > COMMON_GRAM_LIMIT) return;
+    list.forEach(other => {
+      if (other !== position) candidates.add(other);
+    });
+  });
+
+  const similar: [number, number][] = [];
+  candidates.forEach(other => {
+    const otherGrams = new Set(index.grams[other]);
+    const shared = grams.filter(gram => otherGrams.has(gram)).length;
+    const similarity = (2 * shared) / (grams.length + otherGrams.size);
+    if (shared >= MIN_SHARED_GRAMS && similarity >= MIN_SIMILARITY) {
+      similar.push([other, similarity]);
+    }
+  });
+
+  return similar.sort((a, b) => b[1] - a[1]);
+}
+
+function toSimilarVerseMap(index: QuranIndex, positions: SimilarPositions): SimilarVerseMap {
+  const map: SimilarVerseMap = new Map();
+  positions.forEach(([position, similar]) => {
+    const ayah = index.ayahs[position];
+    map.set(
+      ayahKey(ayah.surah.number, ayah.numberInSurah),
+      similar.map(([other, similarity]) => ({ ayah: index.ayahs[other], similarity }))
+    );
+  });
+  return map;
+}
+
+export function buildSimilarVerseMap(index: QuranIndex): SimilarVerseMap {
+  const positions: SimilarPositions = [];
+  index.ayahs.forEach((_, position) => {
+    const similar = findSimilarPositions(index, position);
+    if (similar.length > 0) positions.push([position, similar]);
+  });
+  return toSimilarVerseMap(index, positions);
+}
+
+// Without requestIdleCallback (Safari) a fixed batch of ayahs is compared per macrotask
+const IDLE_FALLBACK_BATCH = 100;
+
+function whenIdle(): Promise<IdleDeadline | null> {
+  return new Promise(resolve => {
+    if (typeof requestIdleCallback === 'function') requestIdleCallback(resolve, { timeout: 1000 });
+    else setTimeout(() => resolve(null), 0);
+  });
+}
+
+// Same result as buildSimilarVerseMap, computed in small slices while the browser is idle so
+// matching and rendering during a recitation are not held up
+async function findSimilarPositionsWhenIdle(index: QuranIndex): Promise<SimilarPositions> {
+  const positions: SimilarPositions = [];
+  let position = 0;
+
+  while (position < index.ayahs.length) {
+    const deadline = await whenIdle();
+    const batchEnd = position + IDLE_FALLBACK_BATCH;
+
+    do {
+      const similar = findSimilarPositions(index, position);
+      if (similar.length > 0) positions.push([position, similar]);
+      position++;
+    } while (
+      position < index.ayahs.length &&
+      (deadline && !deadline.didTimeout ? deadline.timeRemaining() > 1 : position < batchEnd)
+    );
+  }
+
+  return positions;
+}
+
+// The computed clusters are kept in IndexedDB; the fingerprint ties them to the cached text
+const STORED_MAP_KEY = 'similarVerses';
+
+interface StoredSimilarVerses {
+  fingerprint: string;
+  positions: SimilarPositions;
+}
+
+function getFingerprint(index: QuranIndex): string {
+  const textLength = index.ayahs.reduce((total, ayah) => total + ayah.text.length, 0);
+  return `${QURAN_CACHE_VERSION}:${index.ayahs.length}:${textLength}`;
+}
+
+let mapPromise: Promise<SimilarVerseMap | null> | null = null;
+
+// Only available once the whole Quran is in the offline cache: fetching 114 surahs just for
+// the warnings would hammer the provider. null (no drift warnings) until then.
+export function loadSimilarVerseMap(): Promise<SimilarVerseMap | null> {
+  if (mapPromise) return mapPromise;
+
+  mapPromise = (async () => {
+    const details = await getCompleteCachedQuran();
+    if (!details) return null;
+
+    const index = buildQuranIndex(flattenSurahs(details).map(stripBasmalah));
+    const fingerprint = getFingerprint(index);
+
+    const stored = await idbGet<StoredSimilarVerses>('meta', STORED_MAP_KEY).catch(() => undefined);
+    if (stored?.fingerprint === fingerprint) return toSimilarVerseMap(index, stored.positions);
+
+    const positions = await findSimilarPositionsWhenIdle(index);
+    idbPut<StoredSimilarVerses>('meta', { fingerprint, positions }, STORED_MAP_KEY).catch(() => {});
+    return toSimilarVerseMap(index, positions);
+  })();
+
+  // Try again later: after a failure, or once the Quran has been downloaded
+  mapPromise.then(
+    map => {
+      if (!map) mapPromise = null;
+    },
+    () => {
+      mapPromise = null;
+    }
+  );
+
+  return mapPromise;
+}
+
+function countMatchedWords(userText: string, referenceText: string, weights: SimilarityWeights): number {
+  return validateRecitation(userText, referenceText, 0, weights).wordResults.filter(w => w.isCorrect).length;
+}
+
+// The sibling the latest words match better than the expected ayah, if any. Identical siblings
+// never win (the words cannot tell them apart), only the ones whose differing words were recited.
+// `previous` is the ayah recited just before: the latest words often still include its ending,
+// so it is put in front of every candidate to keep the alignment fair.
+export function detectDrift(
+  transcript: string,
+  expected: SectionAyah,
+  siblings: SimilarVerse[],
+  previous?: SectionAyah,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS
+): SectionAyah | null {
+  const recent = normalizeArabic(transcript).split(' ').filter(w => w.length > 0).slice(-DRIFT_QUERY_WORDS);
+  if (recent.length < MIN_DRIFT_MATCHED_WORDS) return null;
+
+  const userText = recent.join(' ');
+  const withPrevious = (ayah: SectionAyah) => (previous ? `${previous.text} ${ayah.text}` : ayah.text);
+  const expectedMatched = countMatchedWords(userText, withPrevious(expected), weights);
+
+  let drift: SectionAyah | null = null;
+  let bestMatched = Math.max(expectedMatched, MIN_DRIFT_MATCHED_WORDS - 1);
+
+  siblings.forEach(({ ayah }) => {
+    const matched = countMatchedWords(userText, withPrevious(ayah), weights);
+    if (matched > bestMatched) {
+      bestMatched = matched;
+      drift = ayah;
+    }
+  });
+
+  return drift;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { findBestMatchingAyah, normalizeArabic, validateRecitation } from '@/lib/quran-api';
+import { fatihahAyahs } from '@/test/quran-fixtures';
+
+const AYAH_2 = 'الْحَمْدُ لِلَّهِ رَبِّ الْعَالَمِينَ';
+
+function kindsOf(userText: string, reference = AYAH_2) {
+  return validateRecitation(userText, reference, 2).wordResults.map(w => [w.kind, w.position]);
+}
+
+describe('normalizeArabic', () => {
+  it('strips harakat and unifies letter variants', () => {
+    expect(normalizeArabic(AYAH_2)).toBe('الحمد لله رب العالمين');
+    expect(normalizeArabic('إِيَّاكَ  رَحْمَةً')).toBe('اياك رحمه');
+  });
+});
+
+describe('validateRecitation', () => {
+  it('accepts a complete recitation', () => {
+    const result = validateRecitation('الحمد لله رب العالمين', AYAH_2, 2);
+
+    expect(result.isValid).toBe(true);
+    expect(result.matchPercentage).toBe(100);
+    expect(result.wordResults.map(w => w.originalExpected)).toEqual(AYAH_2.split(' '));
+  });
+
+  it('reports an omitted word without shifting the words after it', () => {
+    expect(kindsOf('الحمد لله العالمين')).toEqual([
+      ['match', 0], ['match', 1], ['omission', 2], ['match', 3],
+    ]);
+  });
+
+  it('reports an extra word at the position of the following reference word', () => {
+    expect(kindsOf('الحمد لله الرحمن رب العالمين')).toEqual([
+      ['match', 0], ['match', 1], ['insertion', 2], ['match', 2], ['match', 3],
+    ]);
+  });
+
+  it('aligns a misread word as a substitution', () => {
+    const result = validateRecitation('الحمد لله رب الناس', AYAH_2, 2);
+
+    expect(result.wordResults.map(w => w.kind)).toEqual(['match', 'match', 'match', 'substitution']);
+    expect(result.matchPercentage).toBe(75);
+    expect(result.isValid).toBe(false);
+  });
+});
+
+describe('findBestMatchingAyah', () => {
+  it('picks the ayah that explains the most words', () => {
+    const match = findBestMatchingAyah('مالك يوم الدين', fatihahAyahs());
+
+    expect(match?.ayah.numberInSurah).toBe(4);
+    expect(match?.validation.isValid).toBe(true);
+  });
+
+  it('ignores ayahs before the starting ayah', () => {
+    const match = findBestMatchingAyah('الرحمن الرحيم', fatihahAyahs(), 2);
+
+    expect(match?.ayah.numberInSurah).toBe(3);
+  });
+});
@@ -1,3 +1,19 @@
+import {
+  DEFAULT_SIMILARITY_WEIGHTS,
+  SimilarityWeights,
+  calculateSimilarity,
+} from '@/lib/arabic-similarity';
+import {
+  TOTAL_SURAHS,
+  cacheSurahDetail,
+  cacheSurahList,
+  getCachedSurahDetail,
+  getCachedSurahList,
+  getCompleteCachedQuran,
+} from '@/lib/quran-cache';
+import { flattenSurahs, getQuranProvider } from '@/lib/quran-providers';
+import { NotFoundError, withRetry } from '@/lib/quran-errors';
+
 export interface Surah {
   number: number;
   name: string;
@@ -28,29 +44,107 @@ export interface SurahDetail {
   ayahs: Ayah[];
 }
 
-const BASE_URL = 'https://api.alquran.cloud/v1';
+// Ayah from a page/juz listing, which can span several surahs
+export interface SectionAyah extends Ayah {
+  surah: Surah;
+}
+
+// Cache access must never break loading: IndexedDB failures (private mode, quota) fall back to the network
+async function readCache<T>(read: () => Promise<T | undefined>): Promise<T | undefined> {
+  try {
+    return await read();
+  } catch {
+    return undefined;
+  }
+}
+
+function writeCache(write: () => Promise<void>): void {
+  write().catch(() => {
+    // ignore - data is still returned to the caller
+  });
+}
 
 export async function fetchAllSurahs(): Promise<Surah[]> {
-  const response = await fetch(`${BASE_URL}/surah`);
-  const data = await response.json();
-  
-  if (data.code !== 200) {
-    throw new Error('Failed to fetch surahs');
+  const cached = await readCache(getCachedSurahList);
+  if (cached) return cached;
+
+  const surahs = await withRetry(() => getQuranProvider().listSurahs());
+  writeCache(() => cacheSurahList(surahs));
+  return surahs;
+}
+
+function assertSurahNumber(surahNumber: number): void {
+  if (!Number.isInteger(surahNumber) || surahNumber < 1 || surahNumber > TOTAL_SURAHS) {
+    throw new NotFoundError(`Surah ${surahNumber} does not exist`);
   }
-  
-  return data.data;
 }
 
 export async function fetchSurahDetail(surahNumber: number): Promise<SurahDetail> {
-  // Use quran-uthmani edition for full harakat
-  const response = await fetch(`${BASE_URL}/surah/${surahNumber}/quran-uthmani`);
-  const data = await response.json();
-  
-  if (data.code !== 200) {
-    throw new Error('Failed to fetch surah detail');
+  assertSurahNumber(surahNumber);
+
+  const cached = await readCache(() => getCachedSurahDetail(surahNumber));
+  if (cached) return cached;
+
+  const detail = await withRetry(() => getQuranProvider().getSurah(surahNumber));
+  writeCache(() => cacheSurahDetail(detail));
+  return detail;
+}
+
+export async function fetchAyahRange(surahNumber: number, fromAyah: number, toAyah: number): Promise<Ayah[]> {
+  assertSurahNumber(surahNumber);
+
+  const cached = await readCache(() => getCachedSurahDetail(surahNumber));
+  if (cached) {
+    return cached.ayahs.filter(a => a.numberInSurah >= fromAyah && a.numberInSurah <= toAyah);
+  }
+
+  return withRetry(() => getQuranProvider().getAyahRange(surahNumber, fromAyah, toAyah));
+}
+
+// Page/juz/hizb/ruku sections are served from the offline cache once every surah is downloaded
+async function fetchSection(
+  matches: (ayah: Ayah) => boolean,
+  fromProvider: () => Promise<SectionAyah[]>
+): Promise<SectionAyah[]> {
+  const cached = await readCache(getCompleteCachedQuran);
+  if (cached) return flattenSurahs(cached).filter(matches);
+
+  return withRetry(fromProvider);
+}
+
+export function fetchPage(page: number): Promise<SectionAyah[]> {
+  return fetchSection(a => a.page === page, () => getQuranProvider().getPage(page));
+}
+
+export function fetchJuz(juz: number): Promise<SectionAyah[]> {
+  return fetchSection(a => a.juz === juz, () => getQuranProvider().getJuz(juz));
+}
+
+export function fetchHizbQuarter(quarter: number): Promise<SectionAyah[]> {
+  return fetchSection(a => a.hizbQuarter === quarter, () => getQuranProvider().getHizbQuarter(quarter));
+}
+
+export function fetchRuku(ruku: number): Promise<SectionAyah[]> {
+  return fetchSection(a => a.ruku === ruku, () => getQuranProvider().getRuku(ruku));
+}
+
+// Download every surah into the offline cache (already cached surahs are skipped)
+export async function downloadAllSurahs(
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  await navigator.storage?.persist?.();
+  await fetchAllSurahs();
+
+  for (let surahNumber = 1; surahNumber <= TOTAL_SURAHS; surahNumber++) {
+    const cached = await readCache(() => getCachedSurahDetail(surahNumber));
+    if (!cached) {
+      // Straight from the provider: fetchSurahDetail would also write the cache, without
+      // waiting for it or reporting a failed write
+      const detail = await withRetry(() => getQuranProvider().getSurah(surahNumber));
+      await cacheSurahDetail(detail);
+    }
+    onProgress?.(surahNumber, TOTAL_SURAHS);
   }
-  
-  return data.data;
 }
 
 // Normalization function for Arabic text comparison
@@ -90,18 +184,82 @@ export interface ValidationResult {
   message: string;
 }
 
+// match: dibaca benar, substitution: salah baca, omission: terlewat, insertion: kata tambahan
+export type WordAlignmentKind = 'match' | 'substitution' | 'omission' | 'insertion';
+
 export interface WordResult {
   word: string;
   expected: string;
   originalExpected: string; // Original text with harakat
   isCorrect: boolean;
-  position: number;
+  position: number; // Index in the reference ayah (insertions: index of the following reference word)
+  kind: WordAlignmentKind;
+  similarity: number;
+}
+
+// Minimum similarity (0-100) for an aligned word to count as read correctly
+const WORD_MATCH_THRESHOLD = 85;
+// Cost of skipping a word on either side; substitution costs (1 - similarity)
+const GAP_COST = 0.8;
+
+interface AlignmentStep {
+  userIndex: number | null;
+  refIndex: number | null;
+  similarity: number;
+}
+
+// Global word-level alignment (Needleman–Wunsch) between user and reference words
+function alignWords(
+  userWords: string[],
+  referenceWords: string[],
+  weights: SimilarityWeights
+): AlignmentStep[] {
+  const m = userWords.length;
+  const n = referenceWords.length;
+
+  const sim: number[][] = userWords.map(u => referenceWords.map(r => calculateSimilarity(u, r, weights)));
+  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+
+  for (let i = 0; i <= m; i++) dp[i][0] = i * GAP_COST;
+  for (let j = 0; j <= n; j++) dp[0][j] = j * GAP_COST;
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      dp[i][j] = Math.min(
+        dp[i - 1][j - 1] + (1 - sim[i - 1][j - 1] / 100),
+        dp[i - 1][j] + GAP_COST,
+        dp[i][j - 1] + GAP_COST
+      );
+    }
+  }
+
+  // Traceback, preferring diagonal steps on ties
+  const steps: AlignmentStep[] = [];
+  let i = m;
+  let j = n;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + (1 - sim[i - 1][j - 1] / 100)) {
+      steps.push({ userIndex: i - 1, refIndex: j - 1, similarity: sim[i - 1][j - 1] });
+      i--;
+      j--;
+    } else if (j > 0 && (i === 0 || dp[i][j] === dp[i][j - 1] + GAP_COST)) {
+      steps.push({ userIndex: null, refIndex: j - 1, similarity: 0 });
+      j--;
+    } else {
+      steps.push({ userIndex: i - 1, refIndex: null, similarity: 0 });
+      i--;
+    }
+  }
+
+  return steps.reverse();
 }
 
 export function validateRecitation(
   userText: string,
   referenceAyah: string,
-  ayahNumber: number
+  ayahNumber: number,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS
 ): ValidationResult {
   const normalizedUser = normalizeArabic(userText);
   const normalizedReference = normalizeArabic(referenceAyah);
@@ -114,24 +272,40 @@ export function validateRecitation(
   
   const wordResults: WordResult[] = [];
   let correctCount = 0;
-  
-  // Simple word-by-word comparison
-  const maxLength = Math.max(userWords.length, referenceWords.length);
-  
-  for (let i = 0; i < maxLength; i++) {
-    const userWord = userWords[i] || '';
-    const refWord = referenceWords[i] || '';
-    const originalWord = originalWords[i] || refWord;
-    
-    const isCorrect = userWord === refWord;
-    if (isCorrect) correctCount++;
-    
+  let nextRefPosition = 0;
+
+  for (const step of alignWords(userWords, referenceWords, weights)) {
+    if (step.refIndex === null) {
+      wordResults.push({
+        word: userWords[step.userIndex],
+        expected: '',
+        originalExpected: '',
+        isCorrect: false,
+        position: nextRefPosition,
+        kind: 'insertion',
+        similarity: 0,
+      });
+      continue;
+    }
+
+    const refWord = referenceWords[step.refIndex];
+    const kind: WordAlignmentKind = step.userIndex === null
+      ? 'omission'
+      : step.similarity >= WORD_MATCH_THRESHOLD
+        ? 'match'
+        : 'substitution';
+
+    if (kind === 'match') correctCount++;
+    nextRefPosition = step.refIndex + 1;
+
     wordResults.push({
-      word: userWord,
+      word: step.userIndex === null ? '' : userWords[step.userIndex],
       expected: refWord,
-      originalExpected: originalWord,
-      isCorrect,
-      position: i,
+      originalExpected: originalWords[step.refIndex] || refWord,
+      isCorrect: kind === 'match',
+      position: step.refIndex,
+      kind,
+      similarity: step.similarity,
     });
   }
   
@@ -154,21 +328,26 @@ export function validateRecitation(
   };
 }
 
-// Find best matching ayah from a list
-export function findBestMatchingAyah(
+// Find the ayah that best explains the recited words: most matched words first, then the
+// highest match percentage (so a short ayah wins only when it explains as many words)
+export function findBestMatchingAyah<T extends Ayah>(
   userText: string,
-  ayahs: Ayah[],
-  startFromAyah: number = 1
-): { ayah: Ayah; validation: ValidationResult } | null {
+  ayahs: T[],
+  startFromAyah: number = 1,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS
+): { ayah: T; validation: ValidationResult } | null {
   const relevantAyahs = ayahs.filter(a => a.numberInSurah >= startFromAyah);
   
-  let bestMatch: { ayah: Ayah; validation: ValidationResult } | null = null;
+  let bestMatch: { ayah: T; validation: ValidationResult } | null = null;
+  let mostMatched = 0;
   let highestPercentage = 0;
   
   for (const ayah of relevantAyahs) {
-    const validation = validateRecitation(userText, ayah.text, ayah.numberInSurah);
+    const validation = validateRecitation(userText, ayah.text, ayah.numberInSurah, weights);
+    const matched = validation.wordResults.filter(w => w.isCorrect).length;
     
-    if (validation.matchPercentage > highestPercentage) {
+    if (matched > mostMatched || (matched === mostMatched && validation.matchPercentage > highestPercentage)) {
+      mostMatched = matched;
       highestPercentage = validation.matchPercentage;
       bestMatch = { ayah, validation };
     }
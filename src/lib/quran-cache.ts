@@ -0,0 +1,104 @@
+import type { Surah, SurahDetail } from '@/lib/quran-api';
+import {
+  idbClear,
+  idbCount,
+  idbGet,
+  idbGetAll,
+  idbPut,
+} from '@/lib/db';
+
+// Bump when the cached text format or edition changes; older caches are wiped on first access
+export const QURAN_CACHE_VERSION = 1;
+export const TOTAL_SURAHS = 114;
+
+const CACHE_VERSION_KEY = 'quranCacheVersion';
+const SURAH_LIST_KEY = 'all';
+
+let versionChecked: Promise<void> | null = null;
+
+function ensureCacheVersion(): Promise<void> {
+  if (versionChecked) return versionChecked;
+
+  versionChecked = (async () => {
+    const stored = await idbGet<number>('meta', CACHE_VERSION_KEY);
+    if (stored === QURAN_CACHE_VERSION) return;
+
+    await idbClear('surahList');
+    await idbClear('surahDetails');
+    await idbPut('meta', QURAN_CACHE_VERSION, CACHE_VERSION_KEY);
+  })();
+
+  versionChecked.catch(() => {
+    versionChecked = null;
+  });
+
+  return versionChecked;
+}
+
+export async function getCachedSurahList(): Promise<Surah[] | undefined> {
+  await ensureCacheVersion();
+  return idbGet<Surah[]>('surahList', SURAH_LIST_KEY);
+}
+
+export async function cacheSurahList(surahs: Surah[]): Promise<void> {
+  await ensureCacheVersion();
+  await idbPut('surahList', surahs, SURAH_LIST_KEY);
+}
+
+export async function getCachedSurahDetail(surahNumber: number): Promise<SurahDetail | undefined> {
+  await ensureCacheVersion();
+  return idbGet<SurahDetail>('surahDetails', surahNumber);
+}
+
+export async function cacheSurahDetail(detail: SurahDetail): Promise<void> {
+  await ensureCacheVersion();
+  await idbPut('surahDetails', detail);
+}
+
+// Every surah, in order, but only once the full Quran has been downloaded
+export async function getCompleteCachedQuran(): Promise<SurahDetail[] | undefined> {
+  await ensureCacheVersion();
+  if (await idbCount('surahDetails') < TOTAL_SURAHS) return undefined;
+
+  const details = await idbGetAll<SurahDetail>('surahDetails');
+  return details.sort((a, b) => a.number - b.number);
+}
+
+export interface OfflineStatus {
+  cachedSurahs: number;
+  totalSurahs: number;
+  version: number;
+}
+
+export async function getOfflineStatus(): Promise<OfflineStatus> {
+  await ensureCacheVersion();
+  return {
+    cachedSurahs: await idbCount('surahDetails'),
+    totalSurahs: TOTAL_SURAHS,
+    version: QURAN_CACHE_VERSION,
+  };
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+export async function clearOfflineCache(): Promise<void> {
+  await idbClear('surahList');
+  await idbClear('surahDetails');
+}
+
+// Format byte counts for the storage usage display (e.g. "4,2 MB")
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toLocaleString('id-ID', { maximumFractionDigits: 1 })} KB`;
+  return `${(bytes / (1024 * 1024)).toLocaleString('id-ID', { maximumFractionDigits: 1 })} MB`;
+}
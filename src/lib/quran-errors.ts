@@ -0,0 +1,105 @@
+import type { ZodIssue } from 'zod';
+
+export type QuranErrorKind = 'network' | 'rate-limited' | 'not-found' | 'server' | 'schema-mismatch' | 'config';
+
+// Base class for every failure while loading Quran data
+export class QuranDataError extends Error {
+  readonly kind: QuranErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: QuranErrorKind, message: string, retryable: boolean) {
+    super(message);
+    this.name = new.target.name;
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+// Request never reached the server (offline, DNS, CORS)
+export class NetworkError extends QuranDataError {
+  constructor(message = 'Network request failed') {
+    super('network', message, true);
+  }
+}
+
+export class RateLimitedError extends QuranDataError {
+  readonly retryAfterMs: number | null;
+
+  constructor(retryAfterMs: number | null = null) {
+    super('rate-limited', 'Too many requests', true);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class NotFoundError extends QuranDataError {
+  constructor(message = 'Resource not found') {
+    super('not-found', message, false);
+  }
+}
+
+// HTTP 5xx
+export class ServerError extends QuranDataError {
+  readonly status: number;
+
+  constructor(status: number) {
+    super('server', `Server responded with ${status}`, true);
+    this.status = status;
+  }
+}
+
+// Payload did not match the expected shape
+export class SchemaMismatchError extends QuranDataError {
+  readonly issues: ZodIssue[];
+
+  constructor(issues: ZodIssue[] = []) {
+    super('schema-mismatch', 'Unexpected response format', false);
+    this.issues = issues;
+  }
+}
+
+// Data source is set up incorrectly (e.g. self-hosted without a URL); retrying cannot help
+export class ConfigError extends QuranDataError {
+  constructor(message: string) {
+    super('config', message, false);
+  }
+}
+
+// Map an HTTP status (or alquran.cloud envelope code) to a typed error
+export function errorFromStatus(status: number, retryAfterHeader?: string | null): QuranDataError {
+  if (status === 404) return new NotFoundError();
+  if (status === 429) {
+    const seconds = retryAfterHeader ? Number(retryAfterHeader) : NaN;
+    return new RateLimitedError(Number.isFinite(seconds) ? seconds * 1000 : null);
+  }
+  if (status >= 500) return new ServerError(status);
+  return new QuranDataError('server', `Unexpected status ${status}`, false);
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retry transient failures with exponential backoff; permanent errors are thrown immediately
+export async function withRetry<T>(
+  run: () => Promise<T>,
+  { retries = 3, baseDelayMs = 500, maxDelayMs = 8000 }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (err) {
+      const retryable = err instanceof QuranDataError && err.retryable;
+      if (!retryable || attempt >= retries) throw err;
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delay = err instanceof RateLimitedError && err.retryAfterMs !== null
+        ? Math.max(backoff, err.retryAfterMs)
+        : backoff;
+      await sleep(delay);
+    }
+  }
+}
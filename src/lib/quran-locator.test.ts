@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { buildQuranIndex, locateRecitation } from '@/lib/quran-locator';
+import { fatihahAyahs } from '@/test/quran-fixtures';
+
+const INDEX = buildQuranIndex(fatihahAyahs());
+
+describe('buildQuranIndex', () => {
+  it('lists each ayah once per word bigram', () => {
+    // 'الرحمن الرحيم' is in the basmalah and in ayah 3
+    expect(INDEX.postings.get('الرحمن الرحيم')).toEqual([0, 2]);
+    expect(INDEX.postings.get('ولا الضالين')).toEqual([6]);
+  });
+});
+
+describe('locateRecitation', () => {
+  it('finds the ayah the recited words end in', () => {
+    const located = locateRecitation(INDEX, 'الرحمن الرحيم مالك يوم الدين');
+
+    expect(located?.ayah.numberInSurah).toBe(4);
+    expect(located?.reachedAyahEnd).toBe(true);
+    expect(located?.confidence).toBe(100);
+  });
+
+  it('follows the reciter across an ayah boundary', () => {
+    const located = locateRecitation(INDEX, 'اهدنا الصراط المستقيم صراط الذين');
+
+    expect(located?.ayah.numberInSurah).toBe(7);
+    expect(located?.reachedAyahEnd).toBe(false);
+  });
+
+  it('only looks at the most recent words', () => {
+    const located = locateRecitation(INDEX, 'الحمد لله رب العالمين الرحمن الرحيم مالك يوم الدين اياك نعبد واياك');
+
+    expect(located?.ayah.numberInSurah).toBe(5);
+  });
+
+  it('needs a few recognized words', () => {
+    expect(locateRecitation(INDEX, 'مالك يوم')).toBeNull();
+    expect(locateRecitation(INDEX, 'قل هو الله احد')).toBeNull();
+  });
+});
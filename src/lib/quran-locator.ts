@@ -0,0 +1,166 @@
+import { DEFAULT_SIMILARITY_WEIGHTS, SimilarityWeights } from '@/lib/arabic-similarity';
+import { SectionAyah, findBestMatchingAyah, normalizeArabic } from '@/lib/quran-api';
+import { getCompleteCachedQuran } from '@/lib/quran-cache';
+import { flattenSurahs } from '@/lib/quran-providers';
+import { stripBasmalah } from '@/lib/recitation-session';
+
+// Word n-grams of normalized text; bigrams survive single misrecognized words better than trigrams
+const GRAM_SIZE = 2;
+
+// Only the most recent words are located, so the result follows the reciter
+const QUERY_WORDS = 8;
+
+// Candidates from the inverted index that are aligned word by word
+const MAX_CANDIDATES = 12;
+
+const MIN_MATCHED_WORDS = 3;
+
+export interface QuranIndex {
+  ayahs: SectionAyah[];
+  // Distinct n-grams of each ayah, by position
+  grams: string[][];
+  // n-gram -> positions in `ayahs` containing it (each position listed once)
+  postings: Map<string, number[]>;
+}
+
+export interface LocatedAyah {
+  ayah: SectionAyah;
+  matchedWords: number;
+  // Share of the query words found in the ayah (0-100)
+  confidence: number;
+  // The recited words reach the last word of the ayah, so reciting continues with the next one
+  reachedAyahEnd: boolean;
+}
+
+function splitWords(text: string): string[] {
+  return normalizeArabic(text).split(' ').filter(w => w.length > 0);
+}
+
+function nGrams(words: string[]): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i + GRAM_SIZE <= words.length; i++) {
+    grams.push(words.slice(i, i + GRAM_SIZE).join(' '));
+  }
+  return grams;
+}
+
+export function buildQuranIndex(ayahs: SectionAyah[]): QuranIndex {
+  const postings = new Map<string, number[]>();
+  const grams = ayahs.map(ayah => [...new Set(nGrams(splitWords(ayah.text)))]);
+
+  grams.forEach((ayahGrams, position) => {
+    ayahGrams.forEach(gram => {
+      const list = postings.get(gram);
+      if (list) list.push(position);
+      else postings.set(gram, [position]);
+    });
+  });
+
+  return { ayahs, grams, postings };
+}
+
+let indexPromise: Promise<QuranIndex | null> | null = null;
+
+// Built once per page load, from the offline cache only: fetching 114 surahs on the fly would
+// hammer the provider. null until the whole Quran has been downloaded.
+export function loadQuranIndex(): Promise<QuranIndex | null> {
+  if (indexPromise) return indexPromise;
+
+  indexPromise = getCompleteCachedQuran().then(details =>
+    details ? buildQuranIndex(flattenSurahs(details).map(stripBasmalah)) : null
+  );
+
+  // Try again later: after a failure, or once the Quran has been downloaded
+  indexPromise.then(
+    index => {
+      if (!index) indexPromise = null;
+    },
+    () => {
+      indexPromise = null;
+    }
+  );
+
+  return indexPromise;
+}
+
+// Rank ayah positions by shared n-grams, rarer n-grams weighing more (idf)
+function findCandidates(index: QuranIndex, queryWords: string[]): number[] {
+  const scores = new Map<number, number>();
+
+  new Set(nGrams(queryWords)).forEach(gram => {
+    const list = index.postings.get(gram);
+    if (!list) return;
+
+    const weight = Math.log(1 + index.ayahs.length / list.length);
+    list.forEach(position => scores.set(position, (scores.get(position) ?? 0) + weight));
+  });
+
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CANDIDATES)
+    .map(([position]) => position);
+}
+
+// The candidate ayah together with its neighbours in the same surah, so recited words that
+// cross an ayah boundary still align instead of being forced onto unrelated words
+interface LocatorContext extends SectionAyah {
+  parts: SectionAyah[];
+}
+
+function buildContext(index: QuranIndex, position: number): LocatorContext {
+  const ayah = index.ayahs[position];
+  const parts = [index.ayahs[position - 1], ayah, index.ayahs[position + 1]]
+    .filter(a => a && a.surah.number === ayah.surah.number);
+
+  return { ...ayah, text: parts.map(a => a.text).join(' '), parts };
+}
+
+// Position in `words` of the last word of the latest query n-gram found there, or -1
+function findLastGramEnd(words: string[], queryWords: string[]): number {
+  const grams = nGrams(words);
+  const queryGrams = nGrams(queryWords);
+
+  for (let i = queryGrams.length - 1; i >= 0; i--) {
+    const found = grams.indexOf(queryGrams[i]);
+    if (found !== -1) return found + GRAM_SIZE - 1;
+  }
+  return -1;
+}
+
+// Which ayah is being recited, from the cumulative transcript; null until enough words are heard
+export function locateRecitation(
+  index: QuranIndex,
+  transcript: string,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS
+): LocatedAyah | null {
+  const queryWords = splitWords(transcript).slice(-QUERY_WORDS);
+  if (queryWords.length < MIN_MATCHED_WORDS) return null;
+
+  const contexts = findCandidates(index, queryWords).map(position => buildContext(index, position));
+  const best = findBestMatchingAyah(queryWords.join(' '), contexts, 1, weights);
+  if (!best) return null;
+
+  const matched = best.validation.wordResults.filter(w => w.isCorrect);
+  if (matched.length < MIN_MATCHED_WORDS) return null;
+
+  // The reciter is at the ayah holding the last recited n-gram; the alignment may place a
+  // repeated word (e.g. "الله") in a neighbouring ayah, so it is only the fallback
+  const contextWords = splitWords(best.ayah.text);
+  let lastPosition = findLastGramEnd(contextWords, queryWords);
+  if (lastPosition === -1) lastPosition = Math.max(...matched.map(w => w.position));
+
+  for (const part of best.ayah.parts) {
+    const wordCount = splitWords(part.text).length;
+    if (lastPosition < wordCount) {
+      return {
+        ayah: part,
+        matchedWords: matched.length,
+        confidence: Math.round((matched.length / queryWords.length) * 100),
+        reachedAyahEnd: lastPosition === wordCount - 1,
+      };
+    }
+    lastPosition -= wordCount;
+  }
+
+  return null;
+}
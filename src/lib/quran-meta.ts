@@ -0,0 +1,27 @@
+// Static mushaf metadata that is needed without loading the Quran text
+
+// First ayah of each juz (Madani mushaf), as [surah, ayah]
+export const JUZ_STARTS: [number, number][] = [
+  [1, 1], [2, 142], [2, 253], [3, 93], [4, 24], [4, 148], [5, 82], [6, 111], [7, 88], [8, 41],
+  [9, 93], [11, 6], [12, 53], [15, 1], [17, 1], [18, 75], [21, 1], [23, 1], [25, 21], [27, 56],
+  [29, 46], [33, 31], [36, 28], [39, 32], [41, 47], [46, 1], [51, 31], [58, 1], [67, 1], [78, 1],
+];
+
+export function getJuzNumber(surahNumber: number, ayahNumber: number): number {
+  for (let i = JUZ_STARTS.length - 1; i >= 0; i--) {
+    const [surah, ayah] = JUZ_STARTS[i];
+    if (surahNumber > surah || (surahNumber === surah && ayahNumber >= ayah)) return i + 1;
+  }
+  return 1;
+}
+
+// Number of ayahs in each juz, given the ayah count of every surah (index 0 = juz 1)
+export function countAyahsPerJuz(surahs: { number: number; numberOfAyahs: number }[]): number[] {
+  const counts = new Array(JUZ_STARTS.length).fill(0);
+  surahs.forEach(surah => {
+    for (let ayah = 1; ayah <= surah.numberOfAyahs; ayah++) {
+      counts[getJuzNumber(surah.number, ayah) - 1]++;
+    }
+  });
+  return counts;
+}
@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import type { Ayah, SectionAyah, Surah, SurahDetail } from '@/lib/quran-api';
+import {
+  ConfigError,
+  NetworkError,
+  NotFoundError,
+  SchemaMismatchError,
+  errorFromStatus,
+} from '@/lib/quran-errors';
+import {
+  parsePayload,
+  sectionAyahListSchema,
+  surahDetailSchema,
+  surahListSchema,
+} from '@/lib/quran-schema';
+
+// Source of Quran text. Every backend returns the same shapes as alquran.cloud.
+export interface QuranDataProvider {
+  listSurahs(): Promise<Surah[]>;
+  getSurah(surahNumber: number): Promise<SurahDetail>;
+  getAyahRange(surahNumber: number, fromAyah: number, toAyah: number): Promise<Ayah[]>;
+  getPage(page: number): Promise<SectionAyah[]>;
+  getJuz(juz: number): Promise<SectionAyah[]>;
+  getHizbQuarter(quarter: number): Promise<SectionAyah[]>;
+  getRuku(ruku: number): Promise<SectionAyah[]>;
+}
+
+export type QuranProviderId = 'alquran-cloud' | 'local-bundle' | 'self-hosted';
+
+export interface QuranProviderConfig {
+  id: QuranProviderId;
+  baseUrl?: string;
+}
+
+const DEFAULT_CLOUD_URL = 'https://api.alquran.cloud/v1';
+const DEFAULT_BUNDLE_URL = '/quran.json';
+
+// Fetch JSON, translating transport and HTTP failures into typed QuranDataErrors
+async function requestJson(url: string): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    throw new NetworkError(err instanceof Error ? err.message : undefined);
+  }
+
+  if (!response.ok) {
+    throw errorFromStatus(response.status, response.headers.get('Retry-After'));
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new SchemaMismatchError();
+  }
+}
+
+function toSummary(detail: SurahDetail): Surah {
+  return {
+    number: detail.number,
+    name: detail.name,
+    englishName: detail.englishName,
+    englishNameTranslation: detail.englishNameTranslation,
+    numberOfAyahs: detail.numberOfAyahs,
+    revelationType: detail.revelationType,
+  };
+}
+
+export function flattenSurahs(surahs: SurahDetail[]): SectionAyah[] {
+  return surahs.flatMap(detail => {
+    const surah = toSummary(detail);
+    return detail.ayahs.map(ayah => ({ ...ayah, surah }));
+  });
+}
+
+function sliceRange(ayahs: Ayah[], fromAyah: number, toAyah: number): Ayah[] {
+  return ayahs.filter(a => a.numberInSurah >= fromAyah && a.numberInSurah <= toAyah);
+}
+
+// api.alquran.cloud (or a mirror of it): `{ code, data }` envelope, edition in the path
+export class AlQuranCloudProvider implements QuranDataProvider {
+  constructor(
+    private readonly baseUrl: string = DEFAULT_CLOUD_URL,
+    // Use quran-uthmani edition for full harakat
+    private readonly edition: string = 'quran-uthmani'
+  ) {}
+
+  // Unwrap the `{ code, data }` envelope; errors may also be reported only through `code`
+  private async request(path: string): Promise<unknown> {
+    const body = await requestJson(`${this.baseUrl}${path}`) as { code?: number; data?: unknown };
+
+    if (typeof body?.code !== 'number') {
+      throw new SchemaMismatchError();
+    }
+    if (body.code !== 200) {
+      throw errorFromStatus(body.code);
+    }
+
+    return body.data;
+  }
+
+  async listSurahs(): Promise<Surah[]> {
+    return parsePayload(surahListSchema, await this.request('/surah'));
+  }
+
+  async getSurah(surahNumber: number): Promise<SurahDetail> {
+    return parsePayload(surahDetailSchema, await this.request(`/surah/${surahNumber}/${this.edition}`));
+  }
+
+  async getAyahRange(surahNumber: number, fromAyah: number, toAyah: number): Promise<Ayah[]> {
+    const offset = fromAyah - 1;
+    const limit = toAyah - fromAyah + 1;
+    const data = await this.request(`/surah/${surahNumber}/${this.edition}?offset=${offset}&limit=${limit}`);
+    return parsePayload(surahDetailSchema, data).ayahs;
+  }
+
+  async getPage(page: number): Promise<SectionAyah[]> {
+    const data = await this.request(`/page/${page}/${this.edition}`) as { ayahs?: unknown };
+    return parsePayload(sectionAyahListSchema, data?.ayahs);
+  }
+
+  async getJuz(juz: number): Promise<SectionAyah[]> {
+    const data = await this.request(`/juz/${juz}/${this.edition}`) as { ayahs?: unknown };
+    return parsePayload(sectionAyahListSchema, data?.ayahs);
+  }
+
+  async getHizbQuarter(quarter: number): Promise<SectionAyah[]> {
+    const data = await this.request(`/hizbQuarter/${quarter}/${this.edition}`) as { ayahs?: unknown };
+    return parsePayload(sectionAyahListSchema, data?.ayahs);
+  }
+
+  async getRuku(ruku: number): Promise<SectionAyah[]> {
+    const data = await this.request(`/ruku/${ruku}/${this.edition}`) as { ayahs?: unknown };
+    return parsePayload(sectionAyahListSchema, data?.ayahs);
+  }
+}
+
+// A single static JSON file `{ "surahs": SurahDetail[] }`, loaded once and queried in memory
+export class LocalBundleProvider implements QuranDataProvider {
+  private bundle: Promise<SurahDetail[]> | null = null;
+
+  constructor(private readonly bundleUrl: string = DEFAULT_BUNDLE_URL) {}
+
+  private load(): Promise<SurahDetail[]> {
+    if (!this.bundle) {
+      this.bundle = requestJson(this.bundleUrl).then(data =>
+        parsePayload(surahDetailSchema.array(), (data as { surahs?: unknown })?.surahs)
+      );
+      this.bundle.catch(() => {
+        this.bundle = null;
+      });
+    }
+    return this.bundle;
+  }
+
+  async listSurahs(): Promise<Surah[]> {
+    return (await this.load()).map(toSummary);
+  }
+
+  async getSurah(surahNumber: number): Promise<SurahDetail> {
+    const detail = (await this.load()).find(s => s.number === surahNumber);
+    if (!detail) {
+      throw new NotFoundError(`Surah ${surahNumber} is not in the bundle`);
+    }
+    return detail;
+  }
+
+  async getAyahRange(surahNumber: number, fromAyah: number, toAyah: number): Promise<Ayah[]> {
+    return sliceRange((await this.getSurah(surahNumber)).ayahs, fromAyah, toAyah);
+  }
+
+  async getPage(page: number): Promise<SectionAyah[]> {
+    return flattenSurahs(await this.load()).filter(a => a.page === page);
+  }
+
+  async getJuz(juz: number): Promise<SectionAyah[]> {
+    return flattenSurahs(await this.load()).filter(a => a.juz === juz);
+  }
+
+  async getHizbQuarter(quarter: number): Promise<SectionAyah[]> {
+    return flattenSurahs(await this.load()).filter(a => a.hizbQuarter === quarter);
+  }
+
+  async getRuku(ruku: number): Promise<SectionAyah[]> {
+    return flattenSurahs(await this.load()).filter(a => a.ruku === ruku);
+  }
+}
+
+// Our own REST endpoint, plain JSON without envelope:
+// GET /surahs, /surahs/:n, /pages/:n, /juz/:n, /hizb-quarters/:n, /rukus/:n
+export class SelfHostedProvider implements QuranDataProvider {
+  constructor(private readonly baseUrl: string) {}
+
+  private request(path: string): Promise<unknown> {
+    return requestJson(`${this.baseUrl}${path}`);
+  }
+
+  async listSurahs(): Promise<Surah[]> {
+    return parsePayload(surahListSchema, await this.request('/surahs'));
+  }
+
+  async getSurah(surahNumber: number): Promise<SurahDetail> {
+    return parsePayload(surahDetailSchema, await this.request(`/surahs/${surahNumber}`));
+  }
+
+  async getAyahRange(surahNumber: number, fromAyah: number, toAyah: number): Promise<Ayah[]> {
+    return sliceRange((await this.getSurah(surahNumber)).ayahs, fromAyah, toAyah);
+  }
+
+  async getPage(page: number): Promise<SectionAyah[]> {
+    return parsePayload(sectionAyahListSchema, await this.request(`/pages/${page}`));
+  }
+
+  async getJuz(juz: number): Promise<SectionAyah[]> {
+    return parsePayload(sectionAyahListSchema, await this.request(`/juz/${juz}`));
+  }
+
+  async getHizbQuarter(quarter: number): Promise<SectionAyah[]> {
+    return parsePayload(sectionAyahListSchema, await this.request(`/hizb-quarters/${quarter}`));
+  }
+
+  async getRuku(ruku: number): Promise<SectionAyah[]> {
+    return parsePayload(sectionAyahListSchema, await this.request(`/rukus/${ruku}`));
+  }
+}
+
+export function createQuranProvider(config: QuranProviderConfig): QuranDataProvider {
+  switch (config.id) {
+    case 'local-bundle':
+      return new LocalBundleProvider(config.baseUrl || DEFAULT_BUNDLE_URL);
+    case 'self-hosted':
+      if (!config.baseUrl) {
+        throw new ConfigError('Self-hosted provider requires a base URL');
+      }
+      return new SelfHostedProvider(config.baseUrl.replace(/\/+$/, ''));
+    default:
+      return new AlQuranCloudProvider(config.baseUrl?.replace(/\/+$/, '') || DEFAULT_CLOUD_URL);
+  }
+}
+
+const PROVIDER_STORAGE_KEY = 'quranProvider';
+
+const providerConfigSchema = z.object({
+  id: z.enum(['alquran-cloud', 'local-bundle', 'self-hosted']),
+  baseUrl: z.string().optional(),
+});
+
+// localStorage (set from Settings) overrides the build-time VITE_QURAN_PROVIDER / VITE_QURAN_BASE_URL
+export function loadProviderConfig(): QuranProviderConfig {
+  try {
+    const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    const parsed = saved ? providerConfigSchema.safeParse(JSON.parse(saved)) : null;
+    if (parsed?.success) return parsed.data as QuranProviderConfig;
+  } catch {
+    // ignore - fall back to build-time config
+  }
+
+  return {
+    id: (import.meta.env.VITE_QURAN_PROVIDER as QuranProviderId) || 'alquran-cloud',
+    baseUrl: import.meta.env.VITE_QURAN_BASE_URL || undefined,
+  };
+}
+
+export function saveProviderConfig(config: QuranProviderConfig): void {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(config));
+  activeProvider = null;
+}
+
+let activeProvider: QuranDataProvider | null = null;
+
+export function getQuranProvider(): QuranDataProvider {
+  if (!activeProvider) {
+    activeProvider = createQuranProvider(loadProviderConfig());
+  }
+  return activeProvider;
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import type { Ayah, SectionAyah, Surah, SurahDetail } from '@/lib/quran-api';
+import { SchemaMismatchError } from '@/lib/quran-errors';
+
+// The tsconfig is not strict, so z.infer would make every field optional;
+// each schema is pinned to its quran-api interface instead.
+
+export const surahSchema = z.object({
+  number: z.number().int().min(1).max(114),
+  name: z.string(),
+  englishName: z.string(),
+  englishNameTranslation: z.string(),
+  numberOfAyahs: z.number().int().positive(),
+  revelationType: z.string(),
+}) as z.ZodType<Surah>;
+
+const ayahShape = {
+  number: z.number().int().positive(),
+  text: z.string().min(1),
+  numberInSurah: z.number().int().positive(),
+  juz: z.number().int().min(1).max(30),
+  manzil: z.number().int().min(1).max(7),
+  page: z.number().int().min(1).max(604),
+  ruku: z.number().int().positive(),
+  hizbQuarter: z.number().int().min(1).max(240),
+};
+
+export const ayahSchema = z.object(ayahShape) as z.ZodType<Ayah>;
+
+export const sectionAyahSchema = z.object({
+  ...ayahShape,
+  surah: surahSchema,
+}) as z.ZodType<SectionAyah>;
+
+export const surahDetailSchema = z.object({
+  number: z.number().int().min(1).max(114),
+  name: z.string(),
+  englishName: z.string(),
+  englishNameTranslation: z.string(),
+  revelationType: z.string(),
+  numberOfAyahs: z.number().int().positive(),
+  ayahs: z.array(ayahSchema),
+}) as z.ZodType<SurahDetail>;
+
+export const surahListSchema = z.array(surahSchema);
+export const sectionAyahListSchema = z.array(sectionAyahSchema);
+
+// Validate a payload, turning zod failures into SchemaMismatchError
+export function parsePayload<S extends z.ZodTypeAny>(schema: S, data: unknown): z.infer<S> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new SchemaMismatchError(result.error.issues);
+  }
+  return result.data;
+}
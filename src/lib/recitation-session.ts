@@ -0,0 +1,129 @@
+import {
+  SectionAyah,
+  Surah,
+  SurahDetail,
+  fetchHizbQuarter,
+  fetchJuz,
+  fetchPage,
+  fetchRuku,
+  fetchSurahDetail,
+  normalizeArabic,
+} from '@/lib/quran-api';
+import { NotFoundError } from '@/lib/quran-errors';
+import { getIndonesianName } from '@/lib/surah-translations';
+
+export type SessionKind = 'surah' | 'page' | 'juz' | 'hizb' | 'ruku';
+
+// Highest valid number for each unit
+export const SESSION_LIMITS: Record<SessionKind, number> = {
+  surah: 114,
+  page: 604,
+  juz: 30,
+  hizb: 60,
+  ruku: 556,
+};
+
+export const SESSION_KIND_LABELS: Record<SessionKind, string> = {
+  surah: 'Surah',
+  page: 'Halaman',
+  juz: 'Juz',
+  hizb: 'Hizb',
+  ruku: 'Ruku',
+};
+
+// Ayahs of a recitation session, possibly spanning several surahs
+export interface RecitationSession {
+  kind: SessionKind;
+  number: number;
+  title: string;
+  subtitle: string;
+  ayahs: SectionAyah[];
+  // Only for surah sessions (needed by the ayah range picker)
+  surah?: SurahDetail;
+}
+
+export const BASMALAH = 'بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ';
+const BASMALAH_WORDS = normalizeArabic(BASMALAH).split(' ');
+
+// Al-Fatihah counts the basmalah as ayah 1 and At-Taubah has none
+export function hasBasmalahHeader(surahNumber: number): boolean {
+  return surahNumber !== 1 && surahNumber !== 9;
+}
+
+// The Uthmani edition prefixes ayah 1 of most surahs with the basmalah; it is shown
+// as a header instead of being part of the words to recite.
+export function stripBasmalah(ayah: SectionAyah): SectionAyah {
+  if (ayah.numberInSurah !== 1 || !hasBasmalahHeader(ayah.surah.number)) return ayah;
+
+  const words = ayah.text.split(' ').filter(w => w.length > 0);
+  const prefix = words.slice(0, BASMALAH_WORDS.length).map(normalizeArabic);
+  if (words.length <= BASMALAH_WORDS.length || prefix.join(' ') !== BASMALAH_WORDS.join(' ')) return ayah;
+
+  return { ...ayah, text: words.slice(BASMALAH_WORDS.length).join(' ') };
+}
+
+export function getSessionPath(kind: SessionKind, number: number): string {
+  return kind === 'surah' ? `/recite/${number}` : `/${kind}/${number}`;
+}
+
+function toSummary(detail: SurahDetail): Surah {
+  const { ayahs, ...summary } = detail;
+  return summary;
+}
+
+// "Al-Baqarah – Ali 'Imran" for sessions spanning several surahs
+function describeSurahs(ayahs: SectionAyah[]): string {
+  const names = [...new Set(ayahs.map(a => a.surah.number))].map(getIndonesianName);
+  if (names.length <= 2) return names.join(' – ');
+  return `${names[0]} – ${names[names.length - 1]}`;
+}
+
+async function fetchSessionAyahs(kind: Exclude<SessionKind, 'surah'>, number: number): Promise<SectionAyah[]> {
+  switch (kind) {
+    case 'page':
+      return fetchPage(number);
+    case 'juz':
+      return fetchJuz(number);
+    case 'ruku':
+      return fetchRuku(number);
+    case 'hizb': {
+      // One hizb = four hizb quarters
+      const quarters = await Promise.all(
+        [3, 2, 1, 0].map(offset => fetchHizbQuarter(number * 4 - offset))
+      );
+      return quarters.flat();
+    }
+  }
+}
+
+export async function loadRecitationSession(kind: SessionKind, number: number): Promise<RecitationSession> {
+  if (!Number.isInteger(number) || number < 1 || number > SESSION_LIMITS[kind]) {
+    throw new NotFoundError(`${SESSION_KIND_LABELS[kind]} ${number} does not exist`);
+  }
+
+  if (kind === 'surah') {
+    const surah = await fetchSurahDetail(number);
+    const summary = toSummary(surah);
+    return {
+      kind,
+      number,
+      title: surah.name,
+      subtitle: surah.englishName,
+      ayahs: surah.ayahs.map(ayah => stripBasmalah({ ...ayah, surah: summary })),
+      surah,
+    };
+  }
+
+  const ayahs = await fetchSessionAyahs(kind, number);
+  if (ayahs.length === 0) {
+    throw new NotFoundError(`${SESSION_KIND_LABELS[kind]} ${number} is empty`);
+  }
+
+  return {
+    kind,
+    number,
+    title: `${SESSION_KIND_LABELS[kind]} ${number}`,
+    subtitle: describeSurahs(ayahs),
+    ayahs: ayahs.map(stripBasmalah),
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MATCHER_THRESHOLDS, RecitationTracker, buildWordStatuses } from '@/lib/recitation-tracker';
+import { fatihahAyahs } from '@/test/quran-fixtures';
+
+function createTracker(from = 1, to = 6) {
+  return new RecitationTracker(buildWordStatuses(fatihahAyahs(from, to)));
+}
+
+function statusesOf(tracker: RecitationTracker) {
+  return tracker.wordStatuses.map(w => w.status);
+}
+
+describe('RecitationTracker', () => {
+  it('marks words read in order as correct', () => {
+    const tracker = createTracker();
+
+    tracker.syncTranscript('بسم الله الرحمن الرحيم الحمد لله');
+
+    expect(tracker.currentWordIndex).toBe(6);
+    expect(statusesOf(tracker).slice(0, 7)).toEqual([
+      'correct', 'correct', 'correct', 'correct', 'correct', 'correct', 'pending',
+    ]);
+  });
+
+  it('marks a skipped word inside an ayah as incorrect', () => {
+    const tracker = createTracker(2, 3);
+
+    const transitions = tracker.syncTranscript('الحمد لله العالمين الرحمن');
+
+    expect(statusesOf(tracker).slice(0, 4)).toEqual(['correct', 'correct', 'incorrect', 'correct']);
+    expect(transitions).toContainEqual({ index: 2, from: 'pending', to: 'incorrect' });
+  });
+
+  it('moves on to the next ayah once its first two words are heard', () => {
+    const tracker = createTracker(3, 4);
+
+    tracker.syncTranscript('الرحمن الرحيم مالك');
+    // One word of the next ayah is not enough to open it
+    expect(tracker.currentWordIndex).toBe(2);
+
+    tracker.syncTranscript('الرحمن الرحيم مالك يوم');
+    expect(tracker.currentWordIndex).toBe(4);
+    expect(tracker.wordStatuses[2]).toMatchObject({ ayahNumber: 4, status: 'correct' });
+  });
+
+  it('does not open an ayah when the second word does not confirm it', () => {
+    const tracker = createTracker(3, 4);
+
+    tracker.syncTranscript('الرحمن الرحيم مالك نعبد');
+
+    expect(tracker.currentWordIndex).toBe(2);
+    expect(tracker.wordStatuses[2].status).toBe('pending');
+  });
+
+  it('jumps over several skipped ayahs to the ayah being read', () => {
+    const tracker = createTracker(2, 6);
+
+    tracker.syncTranscript('الحمد لله رب العالمين اهدنا الصراط');
+
+    const statuses = tracker.wordStatuses;
+    expect(statuses.filter(w => w.ayahNumber === 3 || w.ayahNumber === 4 || w.ayahNumber === 5)
+      .every(w => w.status === 'incorrect')).toBe(true);
+    expect(statuses.filter(w => w.ayahNumber === 6).map(w => w.status))
+      .toEqual(['correct', 'correct', 'pending']);
+  });
+
+  it('takes the skip candidate length from the thresholds', () => {
+    const words = buildWordStatuses(fatihahAyahs(2, 3));
+    const strict = new RecitationTracker(words, {
+      thresholds: { ...DEFAULT_MATCHER_THRESHOLDS, skipMinLengthSameAyah: 9 },
+    });
+
+    // 'العالمين' (8 letters) is now too short to count as a skip target
+    strict.syncTranscript('الحمد لله العالمين الرحمن');
+
+    expect(strict.currentWordIndex).toBe(2);
+    expect(strict.wordStatuses[2].status).toBe('pending');
+  });
+});
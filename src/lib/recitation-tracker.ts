@@ -0,0 +1,495 @@
+import { SectionAyah, normalizeArabic } from '@/lib/quran-api';
+import {
+  DEFAULT_SIMILARITY_WEIGHTS,
+  SimilarityWeights,
+  calculateSimilarity,
+} from '@/lib/arabic-similarity';
+
+export type WordStatusValue = 'pending' | 'correct' | 'incorrect';
+
+// 0 = no hint, 1 = first letter, 2 = the whole word, 3 = the word and the one after it
+export type HintLevel = 0 | 1 | 2 | 3;
+export const MAX_HINT_LEVEL: HintLevel = 3;
+
+export interface WordStatus {
+  word: string;
+  normalized: string;
+  status: WordStatusValue;
+  ayahIndex: number; // Position of the ayah within the recitation
+  ayahNumber: number; // Ayah number within its surah (for labels)
+  surahNumber: number;
+  isLastWord: boolean;
+  hintLevel: HintLevel; // Highest hint shown before the word was recited
+  confidence?: number; // Recognizer confidence (0-1) of the hypothesis that matched a correct word
+  markedAt?: number; // When the matcher marked the word correct or skipped (epoch ms)
+}
+
+// A recognized word together with what the other n-best hypotheses heard at the same position
+export interface HeardWord {
+  hypotheses: { word: string; confidence: number }[]; // Best hypothesis first
+}
+
+// One recognizer hypothesis for a finalized utterance
+export interface TranscriptHypothesis {
+  transcript: string;
+  confidence: number;
+}
+
+export interface WordTransition {
+  index: number;
+  from: WordStatusValue;
+  to: WordStatusValue;
+}
+
+// Build the word-by-word script for a list of ayahs (ayahIndex = position in the list)
+export function buildWordStatuses(ayahs: Pick<SectionAyah, 'text' | 'numberInSurah' | 'surah'>[]): WordStatus[] {
+  const statuses: WordStatus[] = [];
+
+  ayahs.forEach((ayah, ayahIdx) => {
+    const ayahWords = ayah.text.split(' ').filter(w => w.length > 0);
+    const normalizedAyah = normalizeArabic(ayah.text);
+    const normalizedWords = normalizedAyah.split(' ').filter(w => w.length > 0);
+
+    ayahWords.forEach((word, wordIdx) => {
+      statuses.push({
+        word,
+        normalized: normalizedWords[wordIdx] || '',
+        status: 'pending',
+        ayahIndex: ayahIdx,
+        ayahNumber: ayah.numberInSurah,
+        surahNumber: ayah.surah.number,
+        isLastWord: wordIdx === ayahWords.length - 1,
+        hintLevel: 0,
+      });
+    });
+  });
+
+  return statuses;
+}
+
+function splitWords(text: string): string[] {
+  return normalizeArabic(text).split(' ').filter(w => w.length > 0);
+}
+
+function toHeardWords(words: string[], confidence = 1): HeardWord[] {
+  return words.map(word => ({ hypotheses: [{ word, confidence }] }));
+}
+
+// Split the n-best hypotheses of an utterance into words. The best hypothesis sets the word
+// positions; an alternative is only lined up word by word when it has the same word count
+export function hypothesesToHeardWords(hypotheses: TranscriptHypothesis[]): HeardWord[] {
+  const [best, ...alternatives] = hypotheses.map(h => ({ words: splitWords(h.transcript), confidence: h.confidence }));
+  if (!best) return [];
+
+  return best.words.map((word, position) => ({
+    hypotheses: [
+      { word, confidence: best.confidence },
+      ...alternatives
+        .filter(alt => alt.words.length === best.words.length && alt.words[position] !== word)
+        .map(alt => ({ word: alt.words[position], confidence: alt.confidence })),
+    ],
+  }));
+}
+
+export interface MatcherThresholds {
+  // TOLERAN (dalam ayat): fokus ke hafalan, bukan tajwid
+  currentMatch: number;
+  // AWAL AYAT harus lebih ketat supaya ayat berikutnya tidak kebuka karena noise
+  ayahStartMatch: number;
+  // Kata pendek (<= 2 huruf) butuh kemiripan lebih tinggi
+  shortWordBoost: number;
+  maxCurrentMatch: number;
+  // Konfirmasi kata kedua saat membuka ayat baru
+  startConfirm: number;
+  // KETAT untuk skip: hanya tandai "terlewat" kalau benar-benar yakin user lompat.
+  // Dibuat ekstra ketat saat pindah ayat supaya ayat berikutnya tidak kebuka karena noise.
+  skipDetectSameAyah: number;
+  skipDetectNextAyah: number;
+  skipConfirmSameAyah: number;
+  skipConfirmNextAyah: number;
+  // Kata tujuan lompat harus cukup panjang (kata pendek terlalu mudah cocok karena noise)
+  skipMinLengthSameAyah: number;
+  skipMinLengthNextAyah: number;
+  // Konfirmasi lompat dinaikkan kalau kata konfirmasinya pendek (<= 2 huruf), tapi tidak melebihi batas
+  skipConfirmShortWordBoost: number;
+  maxSkipConfirm: number;
+  // Lompat beberapa ayat sekaligus
+  longJumpMaxAyahsAhead: number;
+  longJumpDetect: number;
+  longJumpConfirm: number;
+  longJumpMinLength: number;
+}
+
+export const DEFAULT_MATCHER_THRESHOLDS: MatcherThresholds = {
+  currentMatch: 40,
+  ayahStartMatch: 60,
+  shortWordBoost: 20,
+  maxCurrentMatch: 85,
+  startConfirm: 45,
+  skipDetectSameAyah: 85,
+  skipDetectNextAyah: 92,
+  skipConfirmSameAyah: 70,
+  skipConfirmNextAyah: 85,
+  skipMinLengthSameAyah: 3,
+  skipMinLengthNextAyah: 4,
+  skipConfirmShortWordBoost: 10,
+  maxSkipConfirm: 95,
+  longJumpMaxAyahsAhead: 12,
+  longJumpDetect: 95,
+  longJumpConfirm: 60,
+  longJumpMinLength: 4,
+};
+
+// What the matcher would make of the interim (not yet final) words, without committing anything
+export interface InterimPreview {
+  wordStatuses: WordStatus[]; // Tentative words already marked correct
+  currentWordIndex: number;
+  tentativeIndices: Set<number>;
+}
+
+// Result of matching heard words from the committed position onwards
+interface MatchRun {
+  wordStatuses: WordStatus[];
+  currentIndex: number;
+  processedCount: number;
+  transitions: WordTransition[];
+}
+
+export interface RecitationTrackerOptions {
+  thresholds?: MatcherThresholds;
+  weights?: SimilarityWeights;
+}
+
+/**
+ * Tarteel-style incremental matcher.
+ *
+ * Holds the word script of a recitation and consumes transcript words one at a time,
+ * advancing `currentWordIndex` and marking words as correct or skipped (incorrect).
+ * Framework-free: the UI only mirrors `wordStatuses` / `currentWordIndex` after each update.
+ */
+export class RecitationTracker {
+  private words: WordStatus[];
+  private currentIndex = 0;
+  private heard: HeardWord[] = [];
+  private processedCount = 0;
+  private thresholds: MatcherThresholds;
+  private weights: SimilarityWeights;
+
+  constructor(words: WordStatus[], options: RecitationTrackerOptions = {}) {
+    this.words = words;
+    this.thresholds = options.thresholds ?? DEFAULT_MATCHER_THRESHOLDS;
+    this.weights = options.weights ?? DEFAULT_SIMILARITY_WEIGHTS;
+  }
+
+  get wordStatuses(): WordStatus[] {
+    return this.words;
+  }
+
+  get currentWordIndex(): number {
+    return this.currentIndex;
+  }
+
+  get isComplete(): boolean {
+    return this.words.length > 0 && this.currentIndex >= this.words.length;
+  }
+
+  // Strictness can be changed mid-session; applies to words processed afterwards
+  setThresholds(thresholds: MatcherThresholds): void {
+    this.thresholds = thresholds;
+  }
+
+  setSimilarityWeights(weights: SimilarityWeights): void {
+    this.weights = weights;
+  }
+
+  // Reset all word statuses to pending and forget everything heard so far
+  reset(): void {
+    this.words = this.words.map(w => ({ ...w, status: 'pending', hintLevel: 0, confidence: undefined, markedAt: undefined }));
+    this.currentIndex = 0;
+    this.heard = [];
+    this.processedCount = 0;
+  }
+
+  // Reveal one more hint level for the word the user is stuck on; null when there is nothing to hint
+  requestHint(): WordStatus | null {
+    const word = this.words[this.currentIndex];
+    if (!word || word.hintLevel >= MAX_HINT_LEVEL) return null;
+
+    const hinted = { ...word, hintLevel: (word.hintLevel + 1) as HintLevel };
+    this.words = this.words.map((w, i) => (i === this.currentIndex ? hinted : w));
+    return hinted;
+  }
+
+  // Append newly recognized words (raw or normalized text) and process them
+  pushWords(words: string[]): WordTransition[] {
+    this.heard = [...this.heard, ...toHeardWords(words.flatMap(splitWords))];
+    return this.process();
+  }
+
+  // Feed the full cumulative transcript
+  syncTranscript(transcript: string): WordTransition[] {
+    return this.syncHeardWords(toHeardWords(splitWords(transcript.trim())));
+  }
+
+  // Feed all words heard so far with their n-best alternatives (as returned by useSpeechRecognition);
+  // a word matches when any of its hypotheses does
+  syncHeardWords(heardWords: HeardWord[]): WordTransition[] {
+    if (heardWords.length <= this.processedCount) return [];
+
+    this.heard = heardWords;
+    return this.process();
+  }
+
+  // Interim results arrive well before the final ones; matching them provisionally lets the UI
+  // highlight words immediately. Only words that would become correct are returned as tentative:
+  // the next final result confirms them or, when it differs, they simply disappear.
+  previewInterim(interimTranscript: string): InterimPreview | null {
+    const interimWords = toHeardWords(splitWords(interimTranscript));
+    if (interimWords.length === 0) return null;
+
+    const run = this.match([...this.heard, ...interimWords]);
+    const tentativeIndices = new Set(
+      run?.transitions.filter(tr => tr.to === 'correct').map(tr => tr.index) ?? []
+    );
+    if (tentativeIndices.size === 0) return null;
+
+    return {
+      wordStatuses: this.words.map((w, i) => (tentativeIndices.has(i) ? { ...w, status: 'correct' } : w)),
+      currentWordIndex: Math.max(...tentativeIndices) + 1,
+      tentativeIndices,
+    };
+  }
+
+  // Only process NEW words that haven't been processed yet
+  private process(): WordTransition[] {
+    const run = this.match(this.heard);
+    if (!run) return [];
+
+    if (run.currentIndex !== this.currentIndex) {
+      this.words = run.wordStatuses;
+      this.currentIndex = run.currentIndex;
+    }
+    this.processedCount = run.processedCount;
+
+    return run.transitions;
+  }
+
+  // Match `heard` from the committed position onwards; does not change the tracker
+  private match(heard: HeardWord[]): MatchRun | null {
+    const wordStatuses = this.words;
+    const t = this.thresholds;
+    const similarity = (heardWord: HeardWord, expected: string) =>
+      Math.max(...heardWord.hypotheses.map(h => calculateSimilarity(h.word, expected, this.weights)));
+    if (wordStatuses.length === 0) return null;
+    if (this.currentIndex >= wordStatuses.length) return null;
+
+    const lastProcessedCount = this.processedCount;
+    if (heard.length <= lastProcessedCount) return null;
+
+    const newWords = heard.slice(lastProcessedCount);
+
+    // Process each new word one by one
+    let newCurrentIndex = this.currentIndex;
+    const updatedStatuses = [...wordStatuses];
+    const transitions: WordTransition[] = [];
+    let processedInThisRun = 0;
+
+    // Correct words keep the confidence of the hypothesis closest to the expected word
+    const mark = (index: number, status: WordStatusValue, heardWord?: HeardWord) => {
+      let confidence: number | undefined;
+      if (heardWord) {
+        const scores = heardWord.hypotheses.map(h => calculateSimilarity(h.word, wordStatuses[index].normalized, this.weights));
+        confidence = heardWord.hypotheses[scores.indexOf(Math.max(...scores))].confidence;
+      }
+
+      transitions.push({ index, from: updatedStatuses[index].status, to: status });
+      updatedStatuses[index] = { ...wordStatuses[index], status, confidence, markedAt: Date.now() };
+    };
+
+    for (let wIdx = 0; wIdx < newWords.length; wIdx++) {
+      const userWord = newWords[wIdx];
+
+      if (newCurrentIndex >= wordStatuses.length) {
+        processedInThisRun++;
+        continue;
+      }
+
+      const currentRef = wordStatuses[newCurrentIndex];
+
+      const isAyahStart =
+        newCurrentIndex === 0 || wordStatuses[newCurrentIndex - 1]?.isLastWord;
+
+      const baseThreshold = isAyahStart ? t.ayahStartMatch : t.currentMatch;
+      const shortWordBoost = (currentRef.normalized?.length || 0) <= 2 ? t.shortWordBoost : 0;
+      const currentMatchThreshold = Math.min(t.maxCurrentMatch, baseThreshold + shortWordBoost);
+
+      const currentSimilarity = similarity(userWord, currentRef.normalized);
+
+      if (currentSimilarity >= currentMatchThreshold) {
+        // Anti-bocor ayat: kalau ini awal ayat, butuh konfirmasi 2 kata supaya noise 1 kata
+        // tidak langsung membuka ayat berikutnya.
+        if (isAyahStart) {
+          const nextExpectedStart = wordStatuses[newCurrentIndex + 1]?.normalized;
+          const nextUserWordStart = newWords[wIdx + 1];
+
+          // Kalau belum ada kata berikutnya, tunggu dulu (jangan advance)
+          if (nextExpectedStart && !nextUserWordStart) {
+            break;
+          }
+
+          if (nextExpectedStart && nextUserWordStart) {
+            const nextSimStart = similarity(nextUserWordStart, nextExpectedStart);
+
+            if (nextSimStart < t.startConfirm) {
+              // Kemungkinan noise yang kebetulan mirip kata pertama -> abaikan
+              processedInThisRun++;
+              continue;
+            }
+          }
+        }
+
+        mark(newCurrentIndex, 'correct', userWord);
+        newCurrentIndex++;
+        processedInThisRun++;
+        continue;
+      }
+
+      // Cek skip hanya di window kecil (hemat & stabil)
+      const currentAyah = currentRef.ayahIndex;
+      let foundAhead = -1;
+
+      for (let i = newCurrentIndex + 1; i < Math.min(newCurrentIndex + 6, wordStatuses.length); i++) {
+        const sameAyah = wordStatuses[i].ayahIndex === currentAyah;
+        const isNextAyahFirstWord =
+          currentRef.isLastWord &&
+          i === newCurrentIndex + 1 &&
+          wordStatuses[i].ayahIndex === currentAyah + 1;
+
+        if (!sameAyah && !isNextAyahFirstWord) break;
+
+        const candidate = wordStatuses[i];
+        const isCrossAyah = isNextAyahFirstWord;
+        const minLen = isCrossAyah ? t.skipMinLengthNextAyah : t.skipMinLengthSameAyah;
+        if ((candidate.normalized?.length || 0) < minLen) continue;
+
+        const detectThreshold = isCrossAyah
+          ? t.skipDetectNextAyah
+          : t.skipDetectSameAyah;
+
+        const aheadSimilarity = similarity(userWord, candidate.normalized);
+        if (aheadSimilarity >= detectThreshold) {
+          foundAhead = i;
+          break;
+        }
+      }
+
+      if (foundAhead !== -1) {
+        const nextUserWord = newWords[wIdx + 1];
+        const nextExpected = wordStatuses[foundAhead + 1]?.normalized;
+
+        // Kalau belum ada kata berikutnya, JANGAN putuskan "terlewat" dulu.
+        // Kita tunggu update transcript berikutnya biar tidak false-positive.
+        if (!nextUserWord) {
+          break;
+        }
+
+        const nextSimilarity = nextExpected
+          ? similarity(nextUserWord, nextExpected)
+          : 0;
+
+        const isCrossAyahJump =
+          currentRef.isLastWord &&
+          wordStatuses[foundAhead].ayahIndex === currentAyah + 1;
+
+        const baseConfirmThreshold = isCrossAyahJump
+          ? t.skipConfirmNextAyah
+          : t.skipConfirmSameAyah;
+
+        const nextLen = nextExpected?.length || 0;
+        const confirmBoost = nextLen <= 2 ? t.skipConfirmShortWordBoost : 0;
+        const requiredConfirm = Math.min(t.maxSkipConfirm, baseConfirmThreshold + confirmBoost);
+
+        if (nextExpected && nextSimilarity >= requiredConfirm) {
+          // User benar-benar lompat -> tandai kata yang dilewati sebagai incorrect
+          for (let i = newCurrentIndex; i < foundAhead; i++) {
+            const sameAyah = wordStatuses[i].ayahIndex === currentAyah;
+            const isNextAyahFirstWord =
+              currentRef.isLastWord &&
+              i === newCurrentIndex + 1 &&
+              wordStatuses[i].ayahIndex === currentAyah + 1;
+
+            if (!sameAyah && !isNextAyahFirstWord) break;
+
+            mark(i, 'incorrect');
+          }
+
+          mark(foundAhead, 'correct', userWord);
+          newCurrentIndex = foundAhead + 1;
+          processedInThisRun++;
+          continue;
+        }
+      }
+
+      // Fallback: kalau user benar-benar lompat beberapa ayat ke depan (misal dari ayat 6 ke ayat 7/9),
+      // kita cari "awal ayat" berikutnya yang match sangat tinggi dan dikonfirmasi 2 kata.
+      // Tujuannya: ayat yang dibaca user tetap muncul (tidak dianggap noise).
+      if (foundAhead === -1 && isAyahStart) {
+        const nextUserWord = newWords[wIdx + 1];
+        if (!nextUserWord) {
+          // butuh 2 kata untuk konfirmasi
+          break;
+        }
+
+        let bestIdx = -1;
+        let bestSim = 0;
+
+        for (let i = newCurrentIndex + 1; i < wordStatuses.length; i++) {
+          const ayahIdx = wordStatuses[i].ayahIndex;
+          if (ayahIdx <= currentAyah + 1) continue; // biarkan next-ayah ditangani oleh logic biasa
+          if (ayahIdx > currentAyah + t.longJumpMaxAyahsAhead) break;
+
+          const isStart = i === 0 || wordStatuses[i - 1]?.isLastWord;
+          if (!isStart) continue;
+
+          const cand = wordStatuses[i];
+          if ((cand.normalized?.length || 0) < t.longJumpMinLength) continue;
+
+          const sim = similarity(userWord, cand.normalized);
+          if (sim > bestSim) {
+            bestSim = sim;
+            bestIdx = i;
+          }
+        }
+
+        if (bestIdx !== -1 && bestSim >= t.longJumpDetect) {
+          const nextExpected = wordStatuses[bestIdx + 1]?.normalized;
+          const nextSim = nextExpected
+            ? similarity(nextUserWord, nextExpected)
+            : 0;
+
+          if (!nextExpected || nextSim >= t.longJumpConfirm) {
+            for (let i = newCurrentIndex; i < bestIdx; i++) {
+              mark(i, 'incorrect');
+            }
+
+            mark(bestIdx, 'correct', userWord);
+            newCurrentIndex = bestIdx + 1;
+            processedInThisRun++;
+            continue;
+          }
+        }
+      }
+
+      // Kalau tidak match DAN tidak terkonfirmasi skip -> anggap noise dari STT.
+      // Jangan advance; tapi kata user tetap dianggap "diproses" supaya tidak nyangkut.
+      processedInThisRun++;
+    }
+
+    return {
+      wordStatuses: updatedStatuses,
+      currentIndex: newCurrentIndex,
+      processedCount: lastProcessedCount + processedInThisRun,
+      transitions,
+    };
+  }
+}
@@ -0,0 +1,381 @@
+import { z } from 'zod';
+import { FakeRecognizer, getFakeRecognizerScript } from '@/lib/fake-recognizer';
+import {
+  RECOVERABLE_WEB_SPEECH_ERRORS,
+  RecognizerConfig,
+  RecognizerEngine,
+  RecognizerEngineId,
+  RecognizerError,
+  RecognizerHandlers,
+} from '@/lib/recognizer-types';
+
+// Speech recognition backends. The hook only talks to a RecognizerEngine, so a Quran-tuned
+// model behind our own server can replace the browser's Web Speech API.
+
+const DEFAULT_LANGUAGE = 'ar-SA'; // Arabic (Saudi Arabia)
+
+// n-best hypotheses requested per utterance; the matcher accepts a word when any of them has it
+const MAX_ALTERNATIVES = 5;
+
+const NOOP_HANDLERS: RecognizerHandlers = {
+  onStart: () => {},
+  onPartial: () => {},
+  onFinal: () => {},
+  onError: () => {},
+  onEnd: () => {},
+};
+
+// Extend Window interface for SpeechRecognition
+interface SpeechRecognitionEvent extends Event {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  error: string;
+  message: string;
+}
+
+// The parts of the (webkit-prefixed) SpeechRecognition API used here; not in TypeScript's DOM lib
+interface BrowserSpeechRecognition {
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  lang: string;
+  onstart: (() => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type BrowserSpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+type WindowWithSpeechRecognition = Window & {
+  SpeechRecognition?: BrowserSpeechRecognitionConstructor;
+  webkitSpeechRecognition?: BrowserSpeechRecognitionConstructor;
+};
+
+export class WebSpeechEngine implements RecognizerEngine {
+  readonly id = 'web-speech';
+  readonly isSupported: boolean;
+  private recognition: BrowserSpeechRecognition | null = null;
+  private handlers: RecognizerHandlers = NOOP_HANDLERS;
+
+  constructor(language: string = DEFAULT_LANGUAGE) {
+    const browserWindow = window as WindowWithSpeechRecognition;
+    const SpeechRecognition = browserWindow.SpeechRecognition || browserWindow.webkitSpeechRecognition;
+    this.isSupported = Boolean(SpeechRecognition);
+    if (!SpeechRecognition) return;
+
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.maxAlternatives = MAX_ALTERNATIVES;
+    recognition.lang = language;
+
+    recognition.onstart = () => this.handlers.onStart();
+    recognition.onend = () => this.handlers.onEnd();
+
+    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      this.handlers.onError({
+        code: event.error,
+        message: event.message,
+        recoverable: RECOVERABLE_WEB_SPEECH_ERRORS.includes(event.error),
+      });
+    };
+
+    recognition.onresult = (event: SpeechRecognitionEvent) => {
+      let interim = '';
+
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          this.handlers.onFinal(Array.from(result, alt => ({ transcript: alt.transcript, confidence: alt.confidence })));
+        } else {
+          interim += result[0].transcript;
+        }
+      }
+
+      this.handlers.onPartial(interim);
+    };
+
+    this.recognition = recognition;
+  }
+
+  setHandlers(handlers: RecognizerHandlers): void {
+    this.handlers = handlers;
+  }
+
+  start(): void {
+    try {
+      this.recognition?.start();
+    } catch {
+      // ignore - start dipanggil saat masih dianggap aktif
+    }
+  }
+
+  stop(): void {
+    this.recognition?.stop();
+  }
+
+  dispose(): void {
+    this.handlers = NOOP_HANDLERS;
+    this.recognition?.stop();
+  }
+}
+
+const TARGET_SAMPLE_RATE = 16000;
+const PROCESSOR_BUFFER_SIZE = 4096;
+// After stop, wait this long for the server's last final result before closing
+const FLUSH_TIMEOUT_MS = 1500;
+
+// Average float samples down to 16 kHz and convert to 16-bit little-endian PCM
+function toPcm16(input: Float32Array, inputRate: number): ArrayBuffer {
+  const ratio = inputRate / TARGET_SAMPLE_RATE;
+  const length = Math.floor(input.length / ratio);
+  const view = new DataView(new ArrayBuffer(length * 2));
+
+  for (let i = 0; i < length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(input.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += input[j];
+    const sample = Math.max(-1, Math.min(1, sum / Math.max(1, end - start)));
+    view.setInt16(i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return view.buffer;
+}
+
+/**
+ * Streams microphone audio as 16 kHz mono PCM over a WebSocket.
+ *
+ * Speaks the vosk-server protocol: a `{"config": {...}}` message first, binary audio frames,
+ * `{"eof": 1}` at the end; the server answers with `{"partial": "..."}` and `{"text": "..."}`
+ * (or `{"alternatives": [{"text", "confidence"}]}` when n-best results are enabled).
+ * `{"type": "partial" | "final" | "error", "text"?, "alternatives"?, "message"?}` is accepted
+ * as well, so a Whisper-based server only needs a thin adapter.
+ */
+export class WebSocketPcmEngine implements RecognizerEngine {
+  readonly id = 'websocket';
+  readonly isSupported: boolean;
+  private handlers: RecognizerHandlers = NOOP_HANDLERS;
+  // Socket of the running session; null once stopped
+  private socket: WebSocket | null = null;
+  // Socket of a stopped session that still waits for the server's last result
+  private flushingSocket: WebSocket | null = null;
+  private stream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private flushTimeout: number | null = null;
+
+  constructor(private readonly url: string, private readonly language: string = DEFAULT_LANGUAGE) {
+    this.isSupported = typeof WebSocket !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia);
+  }
+
+  setHandlers(handlers: RecognizerHandlers): void {
+    this.handlers = handlers;
+  }
+
+  // A restart while the previous session is still flushing opens a new socket right away;
+  // the old one keeps delivering its last result until it closes
+  start(): void {
+    if (this.socket) return;
+
+    const socket = new WebSocket(this.url);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (socket !== this.socket) return;
+
+      socket.send(JSON.stringify({
+        config: { sample_rate: TARGET_SAMPLE_RATE, max_alternatives: MAX_ALTERNATIVES, language: this.language },
+      }));
+      this.startMicrophone(socket).catch((err: unknown) => {
+        const denied = err instanceof DOMException && err.name === 'NotAllowedError';
+        this.fail(socket, { code: denied ? 'not-allowed' : 'audio-capture', recoverable: !denied });
+      });
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data === 'string') this.handleMessage(event.data);
+    };
+
+    socket.onerror = () => {
+      this.fail(socket, { code: 'network', message: `Tidak bisa terhubung ke ${this.url}`, recoverable: true });
+    };
+
+    socket.onclose = () => {
+      if (socket === this.flushingSocket) this.clearFlush();
+      if (socket === this.socket) this.cleanup();
+      // A newer session is already running
+      if (this.socket) return;
+      this.handlers.onEnd();
+    };
+  }
+
+  stop(): void {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.cleanup();
+    if (socket.readyState !== WebSocket.OPEN) {
+      socket.close();
+      return;
+    }
+
+    // Let the server flush its last result; it usually closes the socket itself
+    this.flushingSocket?.close();
+    this.clearFlush();
+    socket.send(JSON.stringify({ eof: 1 }));
+    this.flushingSocket = socket;
+    this.flushTimeout = window.setTimeout(() => socket.close(), FLUSH_TIMEOUT_MS);
+  }
+
+  dispose(): void {
+    this.handlers = NOOP_HANDLERS;
+    this.socket?.close();
+    this.flushingSocket?.close();
+    this.cleanup();
+    this.clearFlush();
+  }
+
+  private async startMicrophone(socket: WebSocket): Promise<void> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+    });
+    // Stopped (or restarted) while waiting for the permission prompt
+    if (socket !== this.socket) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(stream);
+    // ScriptProcessorNode is deprecated but needs no separate worklet module
+    const processor = audioContext.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+
+    processor.onaudioprocess = (event: AudioProcessingEvent) => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+      socket.send(toPcm16(event.inputBuffer.getChannelData(0), audioContext.sampleRate));
+    };
+
+    source.connect(processor);
+    processor.connect(audioContext.destination);
+
+    this.stream = stream;
+    this.audioContext = audioContext;
+    this.processor = processor;
+    this.handlers.onStart();
+  }
+
+  private handleMessage(data: string): void {
+    let message: {
+      partial?: string;
+      text?: string;
+      alternatives?: { text: string; confidence?: number }[];
+      type?: string;
+      message?: string;
+    };
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'error') {
+      this.handlers.onError({ code: 'server', message: message.message, recoverable: false });
+    } else if (message.type === 'partial' || message.partial !== undefined) {
+      this.handlers.onPartial(message.partial ?? message.text ?? '');
+    } else {
+      const hypotheses = message.alternatives?.length
+        ? message.alternatives.map(alt => ({ transcript: alt.text, confidence: alt.confidence ?? 0 }))
+        : [{ transcript: message.text ?? '', confidence: 1 }];
+      if (!hypotheses[0].transcript) return;
+
+      this.handlers.onFinal(hypotheses);
+      this.handlers.onPartial('');
+    }
+  }
+
+  // Errors of a stopped session's socket no longer matter
+  private fail(socket: WebSocket, error: RecognizerError): void {
+    if (socket !== this.socket) return;
+    this.handlers.onError(error);
+    socket.close();
+  }
+
+  private stopMicrophone(): void {
+    this.processor?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.audioContext?.close().catch(() => {});
+    this.processor = null;
+    this.stream = null;
+    this.audioContext = null;
+  }
+
+  private cleanup(): void {
+    this.stopMicrophone();
+    this.socket = null;
+  }
+
+  private clearFlush(): void {
+    if (this.flushTimeout) {
+      window.clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+    this.flushingSocket = null;
+  }
+}
+
+export function createRecognizerEngine(config: RecognizerConfig): RecognizerEngine {
+  if (config.id === 'fake') {
+    return new FakeRecognizer(getFakeRecognizerScript() ?? []);
+  }
+  if (config.id === 'websocket' && config.url) {
+    return new WebSocketPcmEngine(config.url, config.language || DEFAULT_LANGUAGE);
+  }
+  return new WebSpeechEngine(config.language || DEFAULT_LANGUAGE);
+}
+
+const RECOGNIZER_STORAGE_KEY = 'recognizer';
+
+// The fake recognizer is never saved; it is only forced by the URL flag or a test harness
+const savedRecognizerConfigSchema = z.object({
+  id: z.enum(['web-speech', 'websocket']),
+  url: z.string().optional(),
+  language: z.string().optional(),
+});
+
+// True while the fake recognizer is forced by the URL flag or a test harness
+export function isFakeRecognizerForced(): boolean {
+  return getFakeRecognizerScript() !== null;
+}
+
+// The engine to use: the forced fake recognizer, otherwise the configured one
+export function loadRecognizerConfig(): RecognizerConfig {
+  return isFakeRecognizerForced() ? { id: 'fake' } : loadSavedRecognizerConfig();
+}
+
+// localStorage (set from Settings) overrides the build-time VITE_ASR_ENGINE / VITE_ASR_URL
+export function loadSavedRecognizerConfig(): RecognizerConfig {
+  try {
+    const saved = localStorage.getItem(RECOGNIZER_STORAGE_KEY);
+    const parsed = saved ? savedRecognizerConfigSchema.safeParse(JSON.parse(saved)) : null;
+    if (parsed?.success) return parsed.data as RecognizerConfig;
+  } catch {
+    // ignore - fall back to build-time config
+  }
+
+  return {
+    id: (import.meta.env.VITE_ASR_ENGINE as RecognizerEngineId) || 'web-speech',
+    url: import.meta.env.VITE_ASR_URL || undefined,
+  };
+}
+
+export function saveRecognizerConfig(config: RecognizerConfig): void {
+  localStorage.setItem(RECOGNIZER_STORAGE_KEY, JSON.stringify(config));
+}
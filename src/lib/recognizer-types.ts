@@ -0,0 +1,44 @@
+import type { TranscriptHypothesis } from '@/lib/recitation-tracker';
+
+// Contract between useSpeechRecognition and the speech recognition backends
+// (see recognizer-engines.ts and fake-recognizer.ts)
+
+export type RecognizerEngineId = 'web-speech' | 'websocket' | 'fake';
+
+export interface RecognizerError {
+  code: string;
+  message?: string;
+  // Transient problems (silence, dropped connection) after which the hook simply restarts
+  recoverable: boolean;
+}
+
+export interface RecognizerHandlers {
+  onStart: () => void;
+  // Unstable text of the utterance in progress; replaces the previous partial
+  onPartial: (text: string) => void;
+  // Stable text of one utterance as n-best hypotheses (best first), appended to the transcript
+  onFinal: (hypotheses: TranscriptHypothesis[]) => void;
+  onError: (error: RecognizerError) => void;
+  // The engine stopped, on request or by itself
+  onEnd: () => void;
+}
+
+export interface RecognizerEngine {
+  readonly id: RecognizerEngineId;
+  readonly isSupported: boolean;
+  // Handlers stay attached across start/stop cycles
+  setHandlers(handlers: RecognizerHandlers): void;
+  start(): void;
+  stop(): void;
+  dispose(): void;
+}
+
+export interface RecognizerConfig {
+  id: RecognizerEngineId;
+  // WebSocket endpoint of the ASR server (websocket engine only)
+  url?: string;
+  language?: string;
+}
+
+// Chrome mobile reports these while the user is still reciting
+export const RECOVERABLE_WEB_SPEECH_ERRORS = ['no-speech', 'aborted', 'network', 'audio-capture'];
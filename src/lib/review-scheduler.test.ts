@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { AyahAttempt } from '@/lib/ayah-progress';
+import { ReviewItem, applyReviewOutcome, getDueItems, scheduleReview, startOfDay } from '@/lib/review-scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 0, 10, 15, 0).getTime();
+
+const PERFECT: AyahAttempt = { surahNumber: 1, ayahNumber: 2, totalWords: 4, wordsMissed: 0, wordsHinted: 0 };
+const FORGOTTEN: AyahAttempt = { ...PERFECT, wordsMissed: 4 };
+
+function reviewedItem(dueAt: number): ReviewItem {
+  return {
+    key: '1:2',
+    surahNumber: 1,
+    ayahNumber: 2,
+    easeFactor: 2.5,
+    intervalDays: 6,
+    repetitions: 2,
+    dueAt,
+    lastReviewedAt: dueAt - 6 * DAY_MS,
+  };
+}
+
+describe('scheduleReview', () => {
+  it('grows the interval with each successful review', () => {
+    const first = scheduleReview(undefined, PERFECT, NOW);
+    const second = scheduleReview(first, PERFECT, NOW);
+    const third = scheduleReview(second, PERFECT, NOW);
+
+    expect([first.intervalDays, second.intervalDays, third.intervalDays]).toEqual([1, 6, 16]);
+    expect(first.dueAt).toBe(startOfDay(NOW) + DAY_MS);
+  });
+
+  it('starts over when the ayah was forgotten', () => {
+    const item = scheduleReview(reviewedItem(NOW), FORGOTTEN, NOW);
+
+    expect(item.repetitions).toBe(0);
+    expect(item.intervalDays).toBe(1);
+  });
+});
+
+describe('applyReviewOutcome', () => {
+  it('schedules an ayah recited for the first time', () => {
+    expect(applyReviewOutcome(undefined, PERFECT, NOW)?.intervalDays).toBe(1);
+  });
+
+  it('advances an ayah that is due today', () => {
+    const item = applyReviewOutcome(reviewedItem(startOfDay(NOW) + 20 * 60 * 60 * 1000), PERFECT, NOW);
+
+    expect(item?.repetitions).toBe(3);
+    expect(item?.intervalDays).toBe(15);
+  });
+
+  it('leaves an ayah that is not due yet unchanged', () => {
+    expect(applyReviewOutcome(reviewedItem(NOW + 3 * DAY_MS), PERFECT, NOW)).toBeNull();
+  });
+
+  it('still brings back a forgotten ayah that is not due yet', () => {
+    const item = applyReviewOutcome(reviewedItem(NOW + 3 * DAY_MS), FORGOTTEN, NOW);
+
+    expect(item?.dueAt).toBe(startOfDay(NOW) + DAY_MS);
+  });
+});
+
+describe('getDueItems', () => {
+  it('includes everything due by the end of today', () => {
+    const overdue = reviewedItem(NOW - 2 * DAY_MS);
+    const laterToday = reviewedItem(startOfDay(NOW) + DAY_MS - 1);
+    const tomorrow = reviewedItem(startOfDay(NOW) + DAY_MS);
+
+    expect(getDueItems([overdue, laterToday, tomorrow], NOW)).toEqual([overdue, laterToday]);
+  });
+});
@@ -0,0 +1,169 @@
+import { idbGet, idbGetAll, idbPut } from '@/lib/db';
+import { AyahAttempt, attemptPenalty, ayahKey } from '@/lib/ayah-progress';
+import { AyahRange, getRecitePath } from '@/lib/ayah-range';
+
+// SM-2 state for one ayah. An ayah enters the schedule the first time it is recited.
+export interface ReviewItem {
+  key: string;
+  surahNumber: number;
+  ayahNumber: number;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt: number;
+}
+
+// Consecutive due ayahs of one surah, recited together as one session
+export interface ReviewPortion {
+  surahNumber: number;
+  range: AyahRange;
+  // Earliest due date in the portion, to show how overdue it is
+  dueAt: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_PORTION_AYAHS = 15;
+
+export function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// SM-2 recall quality (0-5) from the share of words recited correctly without help
+export function recallQuality(attempt: AyahAttempt): number {
+  const accuracy = (attempt.totalWords - attemptPenalty(attempt)) / attempt.totalWords;
+  if (accuracy >= 1) return 5;
+  if (accuracy >= 0.9) return 4;
+  if (accuracy >= 0.75) return 3;
+  if (accuracy >= 0.5) return 2;
+  if (accuracy > 0) return 1;
+  return 0;
+}
+
+export function scheduleReview(
+  previous: ReviewItem | undefined,
+  attempt: AyahAttempt,
+  reviewedAt = Date.now()
+): ReviewItem {
+  const quality = recallQuality(attempt);
+  let easeFactor = previous?.easeFactor ?? INITIAL_EASE;
+  let repetitions = previous?.repetitions ?? 0;
+  let intervalDays = previous?.intervalDays ?? 0;
+
+  if (quality >= 3) {
+    if (repetitions === 0) intervalDays = 1;
+    else if (repetitions === 1) intervalDays = 6;
+    else intervalDays = Math.round(intervalDays * easeFactor);
+    repetitions++;
+  } else {
+    // Lupa: ulangi dari awal, muraja'ah lagi besok
+    repetitions = 0;
+    intervalDays = 1;
+  }
+
+  easeFactor = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  return {
+    key: ayahKey(attempt.surahNumber, attempt.ayahNumber),
+    surahNumber: attempt.surahNumber,
+    ayahNumber: attempt.ayahNumber,
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: startOfDay(reviewedAt) + intervalDays * DAY_MS,
+    lastReviewedAt: reviewedAt,
+  };
+}
+
+// Reciting an ayah again before it is due must not stretch its interval, otherwise ordinary
+// practice sessions would push it far into the future. New ayahs enter the schedule, due ayahs
+// advance, and forgetting an ayah that is not due yet still brings it back tomorrow.
+export function applyReviewOutcome(
+  previous: ReviewItem | undefined,
+  attempt: AyahAttempt,
+  reviewedAt = Date.now()
+): ReviewItem | null {
+  if (previous && !isDue(previous, reviewedAt) && recallQuality(attempt) >= 3) return null;
+  return scheduleReview(previous, attempt, reviewedAt);
+}
+
+export async function recordReviewOutcomes(attempts: AyahAttempt[], reviewedAt = Date.now()): Promise<ReviewItem[]> {
+  const updated: ReviewItem[] = [];
+
+  for (const attempt of attempts) {
+    const previous = await idbGet<ReviewItem>('reviewSchedule', ayahKey(attempt.surahNumber, attempt.ayahNumber));
+    const item = applyReviewOutcome(previous, attempt, reviewedAt);
+    if (!item) continue;
+
+    await idbPut('reviewSchedule', item);
+    updated.push(item);
+  }
+
+  return updated;
+}
+
+export function getReviewItems(): Promise<ReviewItem[]> {
+  return idbGetAll<ReviewItem>('reviewSchedule');
+}
+
+// Due by the end of the given day
+export function isDue(item: ReviewItem, now = Date.now()): boolean {
+  return item.dueAt < startOfDay(now) + DAY_MS;
+}
+
+export function getDueItems(items: ReviewItem[], now = Date.now()): ReviewItem[] {
+  return items.filter(item => isDue(item, now));
+}
+
+// Group due ayahs into portions in mushaf order: consecutive ayahs of a surah, at most MAX_PORTION_AYAHS each
+export function groupIntoPortions(items: ReviewItem[]): ReviewPortion[] {
+  const sorted = [...items].sort((a, b) => a.surahNumber - b.surahNumber || a.ayahNumber - b.ayahNumber);
+  const portions: ReviewPortion[] = [];
+
+  for (const item of sorted) {
+    const last = portions[portions.length - 1];
+    const continuesLast = last &&
+      last.surahNumber === item.surahNumber &&
+      last.range.to === item.ayahNumber - 1 &&
+      last.range.to - last.range.from + 1 < MAX_PORTION_AYAHS;
+
+    if (continuesLast) {
+      last.range.to = item.ayahNumber;
+      last.dueAt = Math.min(last.dueAt, item.dueAt);
+    } else {
+      portions.push({
+        surahNumber: item.surahNumber,
+        range: { from: item.ayahNumber, to: item.ayahNumber },
+        dueAt: item.dueAt,
+      });
+    }
+  }
+
+  return portions;
+}
+
+export async function getTodayReviewQueue(now = Date.now()): Promise<ReviewPortion[]> {
+  return groupIntoPortions(getDueItems(await getReviewItems(), now));
+}
+
+// How many ayahs fall due on each of the next `days` days (index 0 = tomorrow)
+export function countUpcoming(items: ReviewItem[], days: number, now = Date.now()): number[] {
+  const tomorrow = startOfDay(now) + DAY_MS;
+  const counts = new Array(days).fill(0);
+
+  items.forEach(item => {
+    const dayIndex = Math.floor((item.dueAt - tomorrow) / DAY_MS);
+    if (dayIndex >= 0 && dayIndex < days) counts[dayIndex]++;
+  });
+
+  return counts;
+}
+
+// Review sessions carry ?murajaah=1 so RecitePage can offer the next portion afterwards
+export function getReviewSessionPath(portion: ReviewPortion): string {
+  return `${getRecitePath(portion.surahNumber, portion.range)}?murajaah=1`;
+}
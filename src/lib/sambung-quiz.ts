@@ -0,0 +1,105 @@
+import { idbGetAll, idbPut } from '@/lib/db';
+import { SectionAyah } from '@/lib/quran-api';
+import { loadRecitationSession } from '@/lib/recitation-session';
+import { getIndonesianName } from '@/lib/surah-translations';
+import type { WordStatus } from '@/lib/recitation-tracker';
+
+// Sambung ayat: the prompt ayah is shown, the student recites the ayah that follows it
+
+export type QuizScopeKind = 'surah' | 'juz';
+
+export interface QuizScope {
+  kind: QuizScopeKind;
+  numbers: number[];
+}
+
+export interface QuizQuestion {
+  prompt: SectionAyah;
+  target: SectionAyah;
+}
+
+export interface QuizAnswer {
+  surahNumber: number;
+  ayahNumber: number;
+  totalWords: number;
+  correctWords: number;
+  skipped: boolean; // The student gave up without reciting
+  passed: boolean;
+}
+
+export interface QuizResult {
+  id: string;
+  scope: QuizScope;
+  title: string;
+  startedAt: number;
+  endedAt: number;
+  answers: QuizAnswer[];
+  score: number; // Percentage of questions passed
+}
+
+export const QUIZ_QUESTION_COUNTS = [5, 10, 20];
+
+// Share of the target ayah's words that must be recited correctly
+export const QUIZ_PASS_RATIO = 0.8;
+
+// "Al-Mulk, Al-Qalam" or "Juz 29, 30"
+export function describeQuizScope(scope: QuizScope): string {
+  const numbers = [...scope.numbers].sort((a, b) => a - b);
+  if (scope.kind === 'juz') return `Juz ${numbers.join(', ')}`;
+  if (numbers.length > 3) return `${numbers.length} surah`;
+  return numbers.map(getIndonesianName).join(', ');
+}
+
+export async function loadQuizAyahs(scope: QuizScope): Promise<SectionAyah[]> {
+  const sessions = await Promise.all(scope.numbers.map(n => loadRecitationSession(scope.kind, n)));
+  return sessions.flatMap(s => s.ayahs);
+}
+
+// Every ayah whose preceding ayah (in the same surah) is also in the pool
+export function findQuizCandidates(ayahs: SectionAyah[]): QuizQuestion[] {
+  const byKey = new Map(ayahs.map(a => [`${a.surah.number}:${a.numberInSurah}`, a]));
+  return ayahs
+    .map(target => ({ prompt: byKey.get(`${target.surah.number}:${target.numberInSurah - 1}`), target }))
+    .filter((q): q is QuizQuestion => q.prompt !== undefined);
+}
+
+// Random questions without repeats (fewer when the pool is small)
+export function buildQuizQuestions(ayahs: SectionAyah[], count: number, random = Math.random): QuizQuestion[] {
+  const candidates = findQuizCandidates(ayahs);
+
+  for (let i = candidates.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+  }
+
+  return candidates.slice(0, count);
+}
+
+export function scoreQuizAnswer(question: QuizQuestion, wordStatuses: WordStatus[], skipped = false): QuizAnswer {
+  const correctWords = skipped ? 0 : wordStatuses.filter(w => w.status === 'correct').length;
+  const totalWords = wordStatuses.length;
+
+  return {
+    surahNumber: question.target.surah.number,
+    ayahNumber: question.target.numberInSurah,
+    totalWords,
+    correctWords,
+    skipped,
+    passed: totalWords > 0 && correctWords / totalWords >= QUIZ_PASS_RATIO,
+  };
+}
+
+export function getQuizScore(answers: QuizAnswer[]): number {
+  if (answers.length === 0) return 0;
+  return Math.round((answers.filter(a => a.passed).length / answers.length) * 100);
+}
+
+export async function saveQuizResult(result: QuizResult): Promise<void> {
+  await idbPut('quizResults', result);
+}
+
+// Newest first
+export async function listQuizResults(): Promise<QuizResult[]> {
+  const results = await idbGetAll<QuizResult>('quizResults');
+  return results.sort((a, b) => b.startedAt - a.startedAt);
+}
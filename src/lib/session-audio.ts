@@ -0,0 +1,133 @@
+import { idbGet, idbPut } from '@/lib/db';
+import type { WordStatus } from '@/lib/recitation-tracker';
+
+// Microphone recording of a recitation, kept next to its session record so a teacher can hear
+// how each word was read. Stored separately: the history list never loads the audio.
+export interface SessionAudio {
+  sessionId: string;
+  blob: Blob;
+  mimeType: string;
+  // Wall-clock time of the first recorded sample; word `markedAt` times are relative to it
+  startedAt: number;
+  durationMs: number;
+}
+
+const RECORD_AUDIO_STORAGE_KEY = 'recordSessionAudio';
+
+// Audio played around a tapped word. A word is only marked once the recognizer finalizes it,
+// about a second after it was said, so most of the window lies before the mark.
+const PLAYBACK_LEAD_MS = 3000;
+const PLAYBACK_TAIL_MS = 800;
+
+export function isAudioRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia);
+}
+
+// Off until enabled in Settings: every session would otherwise keep megabytes of audio
+export function loadRecordAudioEnabled(): boolean {
+  try {
+    return localStorage.getItem(RECORD_AUDIO_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function saveRecordAudioEnabled(enabled: boolean): void {
+  localStorage.setItem(RECORD_AUDIO_STORAGE_KEY, String(enabled));
+}
+
+/**
+ * Records the microphone with MediaRecorder while the speech recognizer listens.
+ * The recognizer opens its own audio capture; browsers share the microphone between both.
+ */
+export class SessionAudioRecorder {
+  private recorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+  // Bumped by stop/discard, so a start still waiting for the microphone gives it back
+  private generation = 0;
+
+  async start(): Promise<void> {
+    if (this.recorder) return;
+
+    const generation = this.generation;
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    if (generation !== this.generation || this.recorder) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    this.chunks = [];
+
+    recorder.ondataavailable = (event: BlobEvent) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    recorder.onstart = () => {
+      this.startedAt = Date.now();
+    };
+
+    this.stream = stream;
+    this.recorder = recorder;
+    recorder.start(1000);
+  }
+
+  // Finish the recording; null when nothing was recorded
+  stop(): Promise<Omit<SessionAudio, 'sessionId'> | null> {
+    this.generation++;
+    const recorder = this.recorder;
+    if (!recorder || recorder.state === 'inactive') {
+      this.release();
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        const mimeType = recorder.mimeType || 'audio/webm';
+        const blob = new Blob(this.chunks, { type: mimeType });
+        const startedAt = this.startedAt;
+        this.release();
+        resolve(blob.size > 0 ? { blob, mimeType, startedAt, durationMs: Date.now() - startedAt } : null);
+      };
+      recorder.stop();
+    });
+  }
+
+  discard(): void {
+    this.generation++;
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.onstop = null;
+      this.recorder.stop();
+    }
+    this.release();
+  }
+
+  private release(): void {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.recorder = null;
+    this.chunks = [];
+  }
+}
+
+export async function saveSessionAudio(audio: SessionAudio): Promise<void> {
+  await idbPut('sessionAudio', audio);
+}
+
+export function getSessionAudio(sessionId: string): Promise<SessionAudio | undefined> {
+  return idbGet<SessionAudio>('sessionAudio', sessionId);
+}
+
+// Seconds into the recording to play for a word, or null when the word was never matched
+export function getWordPlaybackWindow(word: WordStatus, audio: SessionAudio): { start: number; end: number } | null {
+  if (word.markedAt === undefined) return null;
+
+  const offsetMs = word.markedAt - audio.startedAt;
+  if (offsetMs < 0 || offsetMs > audio.durationMs + PLAYBACK_TAIL_MS) return null;
+
+  return {
+    start: Math.max(0, offsetMs - PLAYBACK_LEAD_MS) / 1000,
+    end: (offsetMs + PLAYBACK_TAIL_MS) / 1000,
+  };
+}
@@ -0,0 +1,118 @@
+import { idbDeleteFromStores, idbGet, idbGetAll, idbPut } from '@/lib/db';
+import type { AyahRange } from '@/lib/ayah-range';
+import type { SessionKind } from '@/lib/recitation-session';
+import type { StrictnessProfileId } from '@/lib/strictness-profiles';
+import type { WordStatus } from '@/lib/recitation-tracker';
+import { countHintedWords } from '@/lib/hints';
+
+export interface SkippedAyah {
+  surahNumber: number;
+  ayahNumber: number;
+}
+
+// One recitation, from pressing start to stop
+export interface SessionRecord {
+  id: string;
+  kind: SessionKind;
+  number: number;
+  // Only for surah sessions recited over part of the surah
+  range: AyahRange | null;
+  title: string;
+  subtitle: string;
+  surahNames: Record<number, string>;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  wordStatuses: WordStatus[];
+  skippedAyahs: SkippedAyah[];
+  profileId: StrictnessProfileId;
+  profileName: string;
+  completed: boolean;
+}
+
+export interface SessionStats {
+  totalWords: number;
+  recitedWords: number;
+  correctWords: number;
+  skippedWords: number;
+  hintedWords: number;
+  // Correct share of the words reached, 0..100
+  accuracy: number;
+}
+
+export function createSessionId(startedAt: number): string {
+  return `${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Words of each recited ayah, in recitation order
+export function groupWordsByAyah(wordStatuses: WordStatus[]): WordStatus[][] {
+  const byAyah = new Map<number, WordStatus[]>();
+  wordStatuses.forEach(w => {
+    const words = byAyah.get(w.ayahIndex) ?? [];
+    words.push(w);
+    byAyah.set(w.ayahIndex, words);
+  });
+  return [...byAyah.values()];
+}
+
+// Ayahs in which every word was skipped ("Ayat X Terlewat")
+export function findSkippedAyahs(wordStatuses: WordStatus[]): SkippedAyah[] {
+  return groupWordsByAyah(wordStatuses)
+    .filter(words => words.every(w => w.status === 'incorrect'))
+    .map(words => ({ surahNumber: words[0].surahNumber, ayahNumber: words[0].ayahNumber }));
+}
+
+export function getSessionStats(record: Pick<SessionRecord, 'wordStatuses'>): SessionStats {
+  const words = record.wordStatuses;
+  const correctWords = words.filter(w => w.status === 'correct').length;
+  const skippedWords = words.filter(w => w.status === 'incorrect').length;
+  const recitedWords = correctWords + skippedWords;
+
+  return {
+    totalWords: words.length,
+    recitedWords,
+    correctWords,
+    skippedWords,
+    hintedWords: countHintedWords(words),
+    accuracy: recitedWords > 0 ? Math.round((correctWords / recitedWords) * 100) : 0,
+  };
+}
+
+export async function saveSessionRecord(record: SessionRecord): Promise<void> {
+  await idbPut('sessions', record);
+}
+
+export function getSessionRecord(id: string): Promise<SessionRecord | undefined> {
+  return idbGet<SessionRecord>('sessions', id);
+}
+
+// Newest first
+export async function listSessionRecords(): Promise<SessionRecord[]> {
+  const records = await idbGetAll<SessionRecord>('sessions');
+  return records.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// The recording is keyed by the session id and goes with it
+export function deleteSessionRecord(id: string): Promise<void> {
+  return idbDeleteFromStores(['sessions', 'sessionAudio'], id);
+}
+
+// "12 menit 5 detik"
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  if (minutes === 0) return `${seconds} detik`;
+  return seconds === 0 ? `${minutes} menit` : `${minutes} menit ${seconds} detik`;
+}
+
+export function formatSessionDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
@@ -0,0 +1,172 @@
+import { eachDayOfInterval, endOfDay, format, startOfDay, subDays } from 'date-fns';
+import { id as localeId } from 'date-fns/locale';
+import { ayahKey } from '@/lib/ayah-progress';
+import { JUZ_STARTS, getJuzNumber } from '@/lib/quran-meta';
+import { SessionRecord, getSessionStats, groupWordsByAyah } from '@/lib/session-history';
+import type { WordStatus } from '@/lib/recitation-tracker';
+
+export interface StatsDateRange {
+  from: Date;
+  to: Date;
+}
+
+export interface DailyMinutes {
+  date: string;
+  label: string;
+  minutes: number;
+}
+
+export interface DailyMemorized {
+  date: string;
+  label: string;
+  ayahs: number;
+}
+
+export interface DailyAccuracy {
+  date: string;
+  label: string;
+  accuracy: number;
+}
+
+export interface MissedAyah {
+  surahNumber: number;
+  ayahNumber: number;
+  missedWords: number;
+  sessions: number;
+}
+
+export interface JuzCoverage {
+  juz: number;
+  memorized: number;
+  total: number;
+  percent: number;
+}
+
+// The last `days` days including today
+export function lastDays(days: number): StatsDateRange {
+  const to = new Date();
+  return { from: subDays(to, days - 1), to };
+}
+
+function dayKey(timestamp: number | Date): string {
+  return format(timestamp, 'yyyy-MM-dd');
+}
+
+function dayLabel(date: Date): string {
+  return format(date, 'd MMM', { locale: localeId });
+}
+
+function daysOf(range: StatsDateRange): Date[] {
+  return eachDayOfInterval({ start: startOfDay(range.from), end: startOfDay(range.to) });
+}
+
+export function filterSessionsByRange(records: SessionRecord[], range: StatsDateRange): SessionRecord[] {
+  const from = startOfDay(range.from).getTime();
+  const to = endOfDay(range.to).getTime();
+  return records.filter(r => r.startedAt >= from && r.startedAt <= to);
+}
+
+// Ayahs recited to the end with every word correct
+function memorizedAyahKeys(wordStatuses: WordStatus[]): string[] {
+  return groupWordsByAyah(wordStatuses)
+    .filter(words => words.every(w => w.status === 'correct'))
+    .map(words => ayahKey(words[0].surahNumber, words[0].ayahNumber));
+}
+
+export function getMinutesPerDay(records: SessionRecord[], range: StatsDateRange): DailyMinutes[] {
+  const minutes = new Map<string, number>();
+  records.forEach(r => {
+    const key = dayKey(r.startedAt);
+    minutes.set(key, (minutes.get(key) ?? 0) + r.durationMs / 60000);
+  });
+
+  return daysOf(range).map(day => ({
+    date: dayKey(day),
+    label: dayLabel(day),
+    minutes: Math.round((minutes.get(dayKey(day)) ?? 0) * 10) / 10,
+  }));
+}
+
+// Cumulative distinct ayahs memorized; sessions before the range count towards the starting total
+export function getMemorizedOverTime(allRecords: SessionRecord[], range: StatsDateRange): DailyMemorized[] {
+  const sorted = [...allRecords].sort((a, b) => a.startedAt - b.startedAt);
+  const memorized = new Set<string>();
+  let next = 0;
+
+  return daysOf(range).map(day => {
+    const dayEnd = endOfDay(day).getTime();
+    while (next < sorted.length && sorted[next].startedAt <= dayEnd) {
+      memorizedAyahKeys(sorted[next].wordStatuses).forEach(key => memorized.add(key));
+      next++;
+    }
+    return { date: dayKey(day), label: dayLabel(day), ayahs: memorized.size };
+  });
+}
+
+// Word-weighted accuracy per day, only for days with sessions
+export function getAccuracyTrend(records: SessionRecord[]): DailyAccuracy[] {
+  const totals = new Map<string, { correct: number; recited: number; date: Date }>();
+  records.forEach(r => {
+    const stats = getSessionStats(r);
+    const key = dayKey(r.startedAt);
+    const total = totals.get(key) ?? { correct: 0, recited: 0, date: new Date(r.startedAt) };
+    total.correct += stats.correctWords;
+    total.recited += stats.recitedWords;
+    totals.set(key, total);
+  });
+
+  return [...totals.entries()]
+    .filter(([, total]) => total.recited > 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, total]) => ({
+      date,
+      label: dayLabel(total.date),
+      accuracy: Math.round((total.correct / total.recited) * 100),
+    }));
+}
+
+export function getMostMissedAyahs(records: SessionRecord[], limit = 10): MissedAyah[] {
+  const missed = new Map<string, MissedAyah>();
+
+  records.forEach(r => {
+    const seenInSession = new Set<string>();
+    r.wordStatuses
+      .filter(w => w.status === 'incorrect')
+      .forEach(w => {
+        const key = ayahKey(w.surahNumber, w.ayahNumber);
+        const entry = missed.get(key) ?? { surahNumber: w.surahNumber, ayahNumber: w.ayahNumber, missedWords: 0, sessions: 0 };
+        entry.missedWords++;
+        if (!seenInSession.has(key)) {
+          entry.sessions++;
+          seenInSession.add(key);
+        }
+        missed.set(key, entry);
+      });
+  });
+
+  return [...missed.values()]
+    .sort((a, b) => b.missedWords - a.missedWords || b.sessions - a.sessions)
+    .slice(0, limit);
+}
+
+// Share of each juz memorized; `ayahsPerJuz` comes from countAyahsPerJuz
+export function getJuzCoverage(records: SessionRecord[], ayahsPerJuz: number[]): JuzCoverage[] {
+  const memorized = new Set<string>();
+  records.forEach(r => memorizedAyahKeys(r.wordStatuses).forEach(key => memorized.add(key)));
+
+  const perJuz = new Array(JUZ_STARTS.length).fill(0);
+  memorized.forEach(key => {
+    const [surah, ayah] = key.split(':').map(Number);
+    perJuz[getJuzNumber(surah, ayah) - 1]++;
+  });
+
+  return perJuz.map((count, index) => {
+    const total = ayahsPerJuz[index] ?? 0;
+    return {
+      juz: index + 1,
+      memorized: count,
+      total,
+      percent: total > 0 ? Math.round((count / total) * 1000) / 10 : 0,
+    };
+  });
+}
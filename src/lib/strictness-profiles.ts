@@ -0,0 +1,114 @@
+import { DEFAULT_MATCHER_THRESHOLDS, MatcherThresholds } from '@/lib/recitation-tracker';
+
+export type StrictnessProfileId = 'pemula' | 'normal' | 'ketat' | 'musabaqah' | 'custom';
+
+export interface StrictnessProfile {
+  id: StrictnessProfileId;
+  name: string;
+  description: string;
+  thresholds: MatcherThresholds;
+}
+
+export const STRICTNESS_PROFILES: StrictnessProfile[] = [
+  {
+    id: 'pemula',
+    name: 'Pemula',
+    description: 'Sangat toleran terhadap pelafalan, cocok untuk yang baru mulai menghafal.',
+    thresholds: {
+      ...DEFAULT_MATCHER_THRESHOLDS,
+      currentMatch: 30,
+      ayahStartMatch: 50,
+      shortWordBoost: 15,
+      maxCurrentMatch: 75,
+      startConfirm: 35,
+      skipDetectSameAyah: 90,
+      skipDetectNextAyah: 95,
+      skipConfirmSameAyah: 75,
+      skipConfirmNextAyah: 90,
+    },
+  },
+  {
+    id: 'normal',
+    name: 'Normal',
+    description: 'Seimbang antara toleransi pengenalan suara dan ketelitian hafalan.',
+    thresholds: DEFAULT_MATCHER_THRESHOLDS,
+  },
+  {
+    id: 'ketat',
+    name: 'Ketat',
+    description: 'Kata harus dibaca lebih jelas, kata yang terlewat lebih cepat ditandai.',
+    thresholds: {
+      ...DEFAULT_MATCHER_THRESHOLDS,
+      currentMatch: 60,
+      ayahStartMatch: 70,
+      maxCurrentMatch: 90,
+      startConfirm: 55,
+      skipDetectSameAyah: 80,
+      skipDetectNextAyah: 88,
+      skipConfirmSameAyah: 65,
+      skipConfirmNextAyah: 80,
+    },
+  },
+  {
+    id: 'musabaqah',
+    name: 'Musabaqah',
+    description: 'Untuk huffaz yang bersiap lomba: hampir setiap huruf harus tepat.',
+    thresholds: {
+      ...DEFAULT_MATCHER_THRESHOLDS,
+      currentMatch: 75,
+      ayahStartMatch: 80,
+      shortWordBoost: 15,
+      maxCurrentMatch: 95,
+      startConfirm: 65,
+      skipDetectSameAyah: 75,
+      skipDetectNextAyah: 85,
+      skipConfirmSameAyah: 60,
+      skipConfirmNextAyah: 75,
+      longJumpMaxAyahsAhead: 20,
+      longJumpDetect: 90,
+    },
+  },
+];
+
+const PROFILE_STORAGE_KEY = 'strictnessProfile';
+const CUSTOM_THRESHOLDS_STORAGE_KEY = 'customThresholds';
+
+export function getStrictnessProfile(id: StrictnessProfileId): StrictnessProfile {
+  if (id === 'custom') {
+    return {
+      id: 'custom',
+      name: 'Kustom',
+      description: 'Ambang batas yang Anda atur sendiri.',
+      thresholds: loadCustomThresholds(),
+    };
+  }
+
+  return STRICTNESS_PROFILES.find(p => p.id === id) ?? STRICTNESS_PROFILES[1];
+}
+
+export function loadProfileId(): StrictnessProfileId {
+  const saved = localStorage.getItem(PROFILE_STORAGE_KEY);
+  if (saved === 'custom' || STRICTNESS_PROFILES.some(p => p.id === saved)) {
+    return saved as StrictnessProfileId;
+  }
+  return 'normal';
+}
+
+export function saveProfileId(id: StrictnessProfileId): void {
+  localStorage.setItem(PROFILE_STORAGE_KEY, id);
+}
+
+// Custom thresholds are merged over the defaults so older saved values stay valid
+export function loadCustomThresholds(): MatcherThresholds {
+  try {
+    const saved = localStorage.getItem(CUSTOM_THRESHOLDS_STORAGE_KEY);
+    if (!saved) return DEFAULT_MATCHER_THRESHOLDS;
+    return { ...DEFAULT_MATCHER_THRESHOLDS, ...JSON.parse(saved) };
+  } catch {
+    return DEFAULT_MATCHER_THRESHOLDS;
+  }
+}
+
+export function saveCustomThresholds(thresholds: MatcherThresholds): void {
+  localStorage.setItem(CUSTOM_THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds));
+}
@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Clock, History, CheckCircle2, BarChart3, NotebookPen } from 'lucide-react';
+import { Header } from '@/components/Header';
+import {
+  SessionRecord,
+  formatDuration,
+  formatSessionDate,
+  getSessionStats,
+  listSessionRecords,
+} from '@/lib/session-history';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+const HistoryPage = () => {
+  const navigate = useNavigate();
+  const [records, setRecords] = useState<SessionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    listSessionRecords()
+      .then(setRecords)
+      .catch(() => setRecords([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-background islamic-pattern">
+      <Header showBack />
+
+      <main className="container py-6 pb-24 max-w-2xl">
+        <div className="text-center mb-6 fade-in">
+          <h2 className="text-2xl font-bold text-foreground mb-2">Riwayat Hafalan</h2>
+          <p className="text-muted-foreground">Setiap sesi yang dihentikan tersimpan di perangkat ini.</p>
+          {records.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2 mt-4">
+              <Button variant="outline" size="sm" onClick={() => navigate('/stats')} className="gap-2 rounded-xl">
+                <BarChart3 className="w-4 h-4" />
+                Lihat Statistik
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => navigate('/mistakes')} className="gap-2 rounded-xl">
+                <NotebookPen className="w-4 h-4" />
+                Catatan Kesalahan
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-12 h-12 rounded-full border-4 border-primary/20 border-t-primary animate-spin" />
+          </div>
+        ) : records.length === 0 ? (
+          <div className="text-center py-12 bg-card rounded-2xl border border-border">
+            <History className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">Belum ada sesi hafalan yang tersimpan.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {records.map((record, index) => {
+              const stats = getSessionStats(record);
+
+              return (
+                <button
+                  key={record.id}
+                  onClick={() => navigate(`/history/${record.id}`)}
+                  className="card-islamic w-full rounded-xl p-4 text-left fade-in"
+                  style={{ animationDelay: `${Math.min(index, 20) * 30}ms` }}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-foreground truncate">{record.title}</p>
+                      <p className="text-xs text-muted-foreground">{formatSessionDate(record.startedAt)}</p>
+                    </div>
+                    <span
+                      className={cn(
+                        'text-lg font-bold flex-shrink-0',
+                        stats.skippedWords > 0 ? 'text-amber-500' : 'text-success'
+                      )}
+                    >
+                      {stats.accuracy}%
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {formatDuration(record.durationMs)}
+                    </span>
+                    <span>{stats.recitedWords} dari {stats.totalWords} kata</span>
+                    {record.skippedAyahs.length > 0 && (
+                      <span className="text-amber-600">{record.skippedAyahs.length} ayat terlewat</span>
+                    )}
+                    {record.completed && (
+                      <span className="flex items-center gap-1 text-success">
+                        <CheckCircle2 className="w-3 h-3" />
+                        Selesai
+                      </span>
+                    )}
+                    <span>Mode {record.profileName}</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default HistoryPage;
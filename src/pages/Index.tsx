@@ -1,33 +1,49 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search } from 'lucide-react';
+import { Search, MessageSquareQuote } from 'lucide-react';
 import { Header } from '@/components/Header';
 import { SurahCard } from '@/components/SurahCard';
+import { LoadErrorState } from '@/components/LoadErrorState';
 import { fetchAllSurahs, Surah } from '@/lib/quran-api';
+import { getRecitePath } from '@/lib/ayah-range';
+import { SurahProgressSummary, getSurahMasteryRatio, getSurahProgressSummaries } from '@/lib/ayah-progress';
+import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { SectionNavigator } from '@/components/SectionNavigator';
+import { RecitationLocator } from '@/components/RecitationLocator';
 
 const Index = () => {
   const [surahs, setSurahs] = useState<Surah[]>([]);
   const [filteredSurahs, setFilteredSurahs] = useState<Surah[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [progress, setProgress] = useState<Map<number, SurahProgressSummary>>(new Map());
   const navigate = useNavigate();
 
+  // Memorization progress is optional; without IndexedDB the cards simply show no ring
+  useEffect(() => {
+    getSurahProgressSummaries().then(setProgress).catch(() => {});
+  }, []);
+
   useEffect(() => {
     async function loadSurahs() {
       try {
+        setIsLoading(true);
+        setError(null);
         const data = await fetchAllSurahs();
         setSurahs(data);
         setFilteredSurahs(data);
       } catch (err) {
-        setError('Gagal memuat daftar surah. Silakan coba lagi.');
+        setError(err);
       } finally {
         setIsLoading(false);
       }
     }
     loadSurahs();
-  }, []);
+  }, [reloadKey]);
 
   useEffect(() => {
     if (searchQuery.trim() === '') {
@@ -62,63 +78,94 @@ const Index = () => {
           <p className="text-muted-foreground max-w-md mx-auto">
             Pilih surah untuk memulai hafalan. Bacaan Anda akan divalidasi secara otomatis.
           </p>
+          <div className="flex flex-wrap justify-center gap-2 mt-4">
+            <RecitationLocator />
+            <Button variant="outline" size="sm" onClick={() => navigate('/quiz')} className="gap-2 rounded-xl">
+              <MessageSquareQuote className="w-4 h-4" />
+              Kuis Sambung Ayat
+            </Button>
+          </div>
         </div>
 
-        {/* Search */}
-        <div className="relative mb-6 fade-in">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-          <Input
-            type="text"
-            placeholder="Cari surah..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10 bg-card border-border h-12 rounded-xl"
-          />
-        </div>
+        <Tabs defaultValue="surah" className="fade-in">
+          <TabsList className="grid w-full grid-cols-5 mb-6 h-11 rounded-xl">
+            <TabsTrigger value="surah" className="rounded-lg">Surah</TabsTrigger>
+            <TabsTrigger value="juz" className="rounded-lg">Juz</TabsTrigger>
+            <TabsTrigger value="page" className="rounded-lg">Halaman</TabsTrigger>
+            <TabsTrigger value="hizb" className="rounded-lg">Hizb</TabsTrigger>
+            <TabsTrigger value="ruku" className="rounded-lg">Ruku</TabsTrigger>
+          </TabsList>
 
-        {/* Loading State */}
-        {isLoading && (
-          <div className="flex flex-col items-center justify-center py-20">
-            <div className="w-16 h-16 rounded-full border-4 border-primary/20 border-t-primary animate-spin" />
-            <p className="mt-4 text-muted-foreground">Memuat daftar surah...</p>
-          </div>
-        )}
-
-        {/* Error State */}
-        {error && (
-          <div className="text-center py-20">
-            <p className="text-destructive mb-4">{error}</p>
-            <button
-              onClick={() => window.location.reload()}
-              className="btn-islamic px-6 py-3 rounded-xl"
-            >
-              Coba Lagi
-            </button>
-          </div>
-        )}
-
-        {/* Surah List */}
-        {!isLoading && !error && (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-            {filteredSurahs.map((surah, index) => (
-              <div
-                key={surah.number}
-                className="fade-in"
-                style={{ animationDelay: `${Math.min(index, 20) * 30}ms` }}
-              >
-                <SurahCard surah={surah} onClick={() => handleSurahClick(surah)} />
+          <TabsContent value="surah">
+            {/* Search */}
+            <div className="relative mb-6 fade-in">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+              <Input
+                type="text"
+                placeholder="Cari surah..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10 bg-card border-border h-12 rounded-xl"
+              />
+            </div>
+
+            {/* Loading State */}
+            {isLoading && (
+              <div className="flex flex-col items-center justify-center py-20">
+                <div className="w-16 h-16 rounded-full border-4 border-primary/20 border-t-primary animate-spin" />
+                <p className="mt-4 text-muted-foreground">Memuat daftar surah...</p>
               </div>
-            ))}
+            )}
+
+            {/* Error State */}
+            {!isLoading && error && (
+              <LoadErrorState error={error} onRetry={() => setReloadKey(k => k + 1)} />
+            )}
 
-            {filteredSurahs.length === 0 && (
-              <div className="text-center py-12 col-span-full">
-                <p className="text-muted-foreground">
-                  Tidak ada surah yang ditemukan untuk "{searchQuery}"
-                </p>
+            {/* Surah List */}
+            {!isLoading && !error && (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {filteredSurahs.map((surah, index) => (
+                  <div
+                    key={surah.number}
+                    className="fade-in"
+                    style={{ animationDelay: `${Math.min(index, 20) * 30}ms` }}
+                  >
+                    <SurahCard
+                      surah={surah}
+                      onClick={() => handleSurahClick(surah)}
+                      onSelectRange={(range) => navigate(getRecitePath(surah.number, range, surah.numberOfAyahs))}
+                      progress={progress.has(surah.number)
+                        ? getSurahMasteryRatio(progress.get(surah.number), surah.numberOfAyahs)
+                        : undefined}
+                    />
+                  </div>
+                ))}
+
+                {filteredSurahs.length === 0 && (
+                  <div className="text-center py-12 col-span-full">
+                    <p className="text-muted-foreground">
+                      Tidak ada surah yang ditemukan untuk "{searchQuery}"
+                    </p>
+                  </div>
+                )}
               </div>
             )}
-          </div>
-        )}
+          </TabsContent>
+
+          <TabsContent value="juz">
+            <SectionNavigator kind="juz" />
+          </TabsContent>
+          <TabsContent value="page">
+            <SectionNavigator kind="page" />
+          </TabsContent>
+          <TabsContent value="hizb">
+            <SectionNavigator kind="hizb" />
+          </TabsContent>
+          <TabsContent value="ruku">
+            <SectionNavigator kind="ruku" />
+          </TabsContent>
+        </Tabs>
       </main>
 
       {/* Footer Note */}
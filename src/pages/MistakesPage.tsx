@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Check, NotebookPen, Target } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { MistakeEntry, deleteMistake, getMistakeDrillPath, listMistakes } from '@/lib/mistakes';
+import { formatSessionDate } from '@/lib/session-history';
+import { getIndonesianName } from '@/lib/surah-translations';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+
+function MistakeCard({ entry, onDrill, onResolve }: { entry: MistakeEntry; onDrill: () => void; onResolve: () => void }) {
+  const location = entry.kind === 'transition' && entry.previousAyahNumber !== undefined
+    ? `${getIndonesianName(entry.previousSurahNumber)} ${entry.previousAyahNumber} → ${getIndonesianName(entry.surahNumber)} ${entry.ayahNumber}`
+    : `${getIndonesianName(entry.surahNumber)} · Ayat ${entry.ayahNumber}, kata ke-${entry.wordIndex + 1}`;
+
+  return (
+    <div className="card-islamic rounded-xl p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-foreground">{location}</p>
+          <p className="text-xs text-muted-foreground">Terakhir {formatSessionDate(entry.lastMissedAt)}</p>
+        </div>
+        <p dir="rtl" className="font-arabic text-2xl text-amber-500 flex-shrink-0">{entry.word}</p>
+      </div>
+      <div className="flex items-center justify-between gap-2 mt-3">
+        <span className="text-xs px-2 py-0.5 rounded-full bg-amber-500/15 text-amber-600 dark:text-amber-400">
+          Terlewat {entry.count}x
+        </span>
+        <div className="flex gap-2">
+          <Button size="sm" variant="ghost" onClick={onResolve} className="gap-1 text-muted-foreground">
+            <Check className="w-4 h-4" />
+            Sudah Lancar
+          </Button>
+          <Button size="sm" onClick={onDrill} className="gap-1">
+            <Target className="w-4 h-4" />
+            Latihan
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const MistakesPage = () => {
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<MistakeEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listMistakes()
+      .then(setEntries)
+      .catch(() => setEntries([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleResolve = async (key: string) => {
+    try {
+      setError(null);
+      await deleteMistake(key);
+      setEntries(prev => prev.filter(e => e.key !== key));
+    } catch {
+      setError('Gagal menghapus catatan. Penyimpanan browser tidak bisa diakses, coba lagi nanti.');
+    }
+  };
+
+  const renderList = (list: MistakeEntry[], emptyMessage: string) => (
+    list.length === 0 ? (
+      <p className="text-center text-sm text-muted-foreground py-8">{emptyMessage}</p>
+    ) : (
+      <div className="space-y-3">
+        {list.map((entry) => (
+          <MistakeCard
+            key={entry.key}
+            entry={entry}
+            onDrill={() => navigate(getMistakeDrillPath(entry))}
+            onResolve={() => handleResolve(entry.key)}
+          />
+        ))}
+      </div>
+    )
+  );
+
+  const words = entries.filter(e => e.kind === 'word');
+  const transitions = entries.filter(e => e.kind === 'transition');
+
+  return (
+    <div className="min-h-screen bg-background islamic-pattern">
+      <Header showBack />
+
+      <main className="container py-6 pb-24 max-w-2xl">
+        <div className="text-center mb-6 fade-in">
+          <h2 className="text-2xl font-bold text-foreground mb-2">Catatan Kesalahan</h2>
+          <p className="text-muted-foreground">
+            Kata dan perpindahan ayat yang paling sering terlewat dari semua sesi hafalan.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-destructive text-center mb-4">{error}</p>}
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-12 h-12 rounded-full border-4 border-primary/20 border-t-primary animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12 bg-card rounded-2xl border border-border">
+            <NotebookPen className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">Belum ada kesalahan yang tercatat. Barakallahu fiik!</p>
+          </div>
+        ) : (
+          <Tabs defaultValue="word" className="fade-in">
+            <TabsList className="grid w-full grid-cols-2 mb-4 h-11 rounded-xl">
+              <TabsTrigger value="word" className="rounded-lg">Kata ({words.length})</TabsTrigger>
+              <TabsTrigger value="transition" className="rounded-lg">Perpindahan Ayat ({transitions.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="word">
+              {renderList(words, 'Tidak ada kata yang sering terlewat.')}
+            </TabsContent>
+            <TabsContent value="transition">
+              {renderList(transitions, 'Tidak ada perpindahan ayat yang sering terlewat.')}
+            </TabsContent>
+          </Tabs>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default MistakesPage;
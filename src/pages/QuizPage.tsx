@@ -0,0 +1,452 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CheckCircle2, ChevronRight, Play, RefreshCw, SkipForward, XCircle } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { VoiceIndicator } from '@/components/VoiceIndicator';
+import { MushafView } from '@/components/MushafView';
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { useStrictnessProfile } from '@/hooks/useStrictnessProfile';
+import { fetchAllSurahs, Surah } from '@/lib/quran-api';
+import { SESSION_LIMITS } from '@/lib/recitation-session';
+import { RecitationTracker, WordStatus, buildWordStatuses } from '@/lib/recitation-tracker';
+import { createSessionId, formatSessionDate } from '@/lib/session-history';
+import { getIndonesianName } from '@/lib/surah-translations';
+import {
+  QUIZ_QUESTION_COUNTS,
+  QuizAnswer,
+  QuizQuestion,
+  QuizResult,
+  QuizScope,
+  QuizScopeKind,
+  buildQuizQuestions,
+  describeQuizScope,
+  getQuizScore,
+  listQuizResults,
+  loadQuizAyahs,
+  saveQuizResult,
+  scoreQuizAnswer,
+} from '@/lib/sambung-quiz';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { cn } from '@/lib/utils';
+
+type QuizPhase = 'setup' | 'loading' | 'question' | 'finished';
+
+function ayahLabel(surahNumber: number, ayahNumber: number): string {
+  return `${getIndonesianName(surahNumber)} : ${ayahNumber}`;
+}
+
+const QuizPage = () => {
+  const [phase, setPhase] = useState<QuizPhase>('setup');
+  const [setupError, setSetupError] = useState<string | null>(null);
+
+  // Setup
+  const [surahs, setSurahs] = useState<Surah[]>([]);
+  const [surahQuery, setSurahQuery] = useState('');
+  const [scope, setScope] = useState<QuizScope>({ kind: 'surah', numbers: [] });
+  const [questionCount, setQuestionCount] = useState(QUIZ_QUESTION_COUNTS[0]);
+  const [pastResults, setPastResults] = useState<QuizResult[]>([]);
+
+  // Running quiz
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [isAnswered, setIsAnswered] = useState(false);
+  const [wordStatuses, setWordStatuses] = useState<WordStatus[]>([]);
+  const trackerRef = useRef<RecitationTracker | null>(null);
+  const startedAtRef = useRef(0);
+
+  const {
+    isListening,
+    heardWords,
+    isSupported,
+    startListening,
+    stopListening,
+    resetTranscript,
+    error: speechError,
+  } = useSpeechRecognition();
+  const { profile, similarityWeights } = useStrictnessProfile();
+
+  useEffect(() => {
+    fetchAllSurahs().then(setSurahs).catch(() => {});
+    listQuizResults().then(setPastResults).catch(() => {});
+  }, []);
+
+  // Same incremental matching as a normal recitation, on the target ayah only
+  useEffect(() => {
+    const tracker = trackerRef.current;
+    if (!isListening || !tracker || isAnswered) return;
+
+    if (tracker.syncHeardWords(heardWords).length > 0) {
+      setWordStatuses(tracker.wordStatuses);
+    }
+  }, [heardWords, isListening, isAnswered]);
+
+  const question = questions[questionIndex];
+
+  const showQuestion = useCallback((list: QuizQuestion[], index: number) => {
+    const tracker = new RecitationTracker(buildWordStatuses([list[index].target]), {
+      thresholds: profile.thresholds,
+      weights: similarityWeights,
+    });
+    trackerRef.current = tracker;
+    setWordStatuses(tracker.wordStatuses);
+    setQuestionIndex(index);
+    setIsAnswered(false);
+    resetTranscript();
+  }, [profile, similarityWeights, resetTranscript]);
+
+  const answerQuestion = useCallback((skipped: boolean) => {
+    const tracker = trackerRef.current;
+    if (!tracker || !question || isAnswered) return;
+
+    stopListening();
+    setIsAnswered(true);
+    setAnswers(prev => [...prev, scoreQuizAnswer(question, tracker.wordStatuses, skipped)]);
+  }, [question, isAnswered, stopListening]);
+
+  // The answer is checked as soon as the last word of the ayah is recited
+  const isTargetComplete = wordStatuses.length > 0 && wordStatuses.every(w => w.status !== 'pending');
+  useEffect(() => {
+    if (isTargetComplete && isListening) answerQuestion(false);
+  }, [isTargetComplete, isListening, answerQuestion]);
+
+  const handleStart = async () => {
+    setSetupError(null);
+    setPhase('loading');
+
+    try {
+      const ayahs = await loadQuizAyahs(scope);
+      const list = buildQuizQuestions(ayahs, questionCount);
+      if (list.length === 0) {
+        setSetupError('Pilihan ini tidak memiliki ayat yang bisa disambung. Pilih surah atau juz lain.');
+        setPhase('setup');
+        return;
+      }
+
+      setQuestions(list);
+      setAnswers([]);
+      startedAtRef.current = Date.now();
+      showQuestion(list, 0);
+      setPhase('question');
+    } catch {
+      setSetupError('Gagal memuat ayat. Periksa koneksi internet lalu coba lagi.');
+      setPhase('setup');
+    }
+  };
+
+  const handleVoiceToggle = () => {
+    if (isListening) {
+      answerQuestion(false);
+    } else {
+      resetTranscript();
+      startListening();
+    }
+  };
+
+  const handleNext = () => {
+    if (questionIndex + 1 < questions.length) {
+      showQuestion(questions, questionIndex + 1);
+      return;
+    }
+
+    const result: QuizResult = {
+      id: createSessionId(startedAtRef.current),
+      scope,
+      title: describeQuizScope(scope),
+      startedAt: startedAtRef.current,
+      endedAt: Date.now(),
+      answers,
+      score: getQuizScore(answers),
+    };
+    setPastResults(prev => [result, ...prev]);
+    saveQuizResult(result).catch(() => {});
+    setPhase('finished');
+  };
+
+  const toggleScopeNumber = (n: number) => {
+    setScope(prev => ({
+      ...prev,
+      numbers: prev.numbers.includes(n) ? prev.numbers.filter(x => x !== n) : [...prev.numbers, n],
+    }));
+  };
+
+  const filteredSurahs = surahs.filter(s => {
+    const query = surahQuery.trim().toLowerCase();
+    return query === '' ||
+      s.englishName.toLowerCase().includes(query) ||
+      getIndonesianName(s.number).toLowerCase().includes(query) ||
+      s.number.toString() === query;
+  });
+
+  if (phase === 'loading') {
+    return (
+      <div className="min-h-screen bg-background islamic-pattern">
+        <Header showBack />
+        <div className="flex flex-col items-center justify-center py-32">
+          <div className="w-16 h-16 rounded-full border-4 border-primary/20 border-t-primary animate-spin" />
+          <p className="mt-4 text-muted-foreground">Menyiapkan soal...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'question' && question) {
+    const lastAnswer = isAnswered ? answers[answers.length - 1] : null;
+    const isLastQuestion = questionIndex + 1 >= questions.length;
+
+    return (
+      <div className="min-h-screen bg-background">
+        <Header title="Sambung Ayat" subtitle={describeQuizScope(scope)} showBack minimalMode />
+
+        <main className="container py-6 pb-48 md:pb-40 max-w-2xl space-y-6">
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>Soal {questionIndex + 1} dari {questions.length}</span>
+            <span>Benar {answers.filter(a => a.passed).length}</span>
+          </div>
+
+          <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+            <p className="text-xs text-muted-foreground mb-2">
+              {ayahLabel(question.prompt.surah.number, question.prompt.numberInSurah)}
+            </p>
+            <p dir="rtl" className="font-arabic text-2xl md:text-3xl leading-loose text-foreground">
+              {question.prompt.text}
+            </p>
+          </section>
+
+          <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+            <p className="text-sm text-muted-foreground mb-3 text-center">
+              {isAnswered
+                ? ayahLabel(question.target.surah.number, question.target.numberInSurah)
+                : 'Lanjutkan dengan ayat berikutnya...'}
+            </p>
+            <div dir="rtl">
+              <MushafView wordStatuses={wordStatuses} displayMode={isAnswered ? 'read-along' : 'blind'} />
+            </div>
+          </section>
+
+          {speechError && (
+            <div className="p-4 rounded-xl bg-destructive/10 border border-destructive/20 fade-in">
+              <p className="text-sm text-destructive text-center">{speechError}</p>
+            </div>
+          )}
+
+          {lastAnswer ? (
+            <div className={cn(
+              'text-center p-6 rounded-2xl slide-up',
+              lastAnswer.passed ? 'bg-success/10 border border-success/20' : 'bg-amber-500/10 border border-amber-500/20'
+            )}>
+              <p className={cn('text-lg font-bold mb-1', lastAnswer.passed ? 'text-success' : 'text-amber-600')}>
+                {lastAnswer.passed ? 'Benar, MasyaAllah!' : lastAnswer.skipped ? 'Dilewati' : 'Belum Tepat'}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {lastAnswer.correctWords} dari {lastAnswer.totalWords} kata dibaca dengan benar
+              </p>
+              <Button size="sm" onClick={handleNext} className="gap-2 mt-4">
+                {isLastQuestion ? 'Lihat Hasil' : 'Soal Berikutnya'}
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="flex justify-center">
+              <Button variant="ghost" size="sm" onClick={() => answerQuestion(true)} className="gap-2 text-muted-foreground">
+                <SkipForward className="w-4 h-4" />
+                Lewati Soal
+              </Button>
+            </div>
+          )}
+        </main>
+
+        {!isAnswered && (
+          <div className="fixed bottom-0 left-0 right-0 bg-background/95 backdrop-blur-lg border-t border-border py-3 md:py-4">
+            <div className="container flex flex-col items-center gap-2">
+              <VoiceIndicator isListening={isListening} onClick={handleVoiceToggle} />
+              <p className="text-xs text-muted-foreground">
+                {isListening ? '🎙️ Mendengarkan... tekan lagi untuk menjawab' : 'Tekan untuk mulai menyambung ayat'}
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (phase === 'finished') {
+    const score = getQuizScore(answers);
+
+    return (
+      <div className="min-h-screen bg-background islamic-pattern">
+        <Header showBack />
+
+        <main className="container py-6 pb-24 max-w-2xl space-y-6">
+          <section className="bg-card rounded-2xl border border-border p-4 md:p-6 text-center fade-in">
+            <p className="text-sm text-muted-foreground">{describeQuizScope(scope)}</p>
+            <p className={cn('text-5xl font-bold my-2', score >= 80 ? 'text-success' : 'text-amber-500')}>{score}</p>
+            <p className="text-muted-foreground">
+              {answers.filter(a => a.passed).length} dari {answers.length} soal tersambung dengan benar
+            </p>
+            <div className="flex flex-wrap justify-center gap-2 mt-4">
+              <Button size="sm" onClick={handleStart} className="gap-2">
+                <RefreshCw className="w-4 h-4" />
+                Kuis Lagi
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setPhase('setup')}>
+                Ubah Pilihan
+              </Button>
+            </div>
+          </section>
+
+          <div className="space-y-2">
+            {answers.map((answer, index) => (
+              <div key={index} className="flex items-center justify-between rounded-xl bg-card border border-border px-4 py-3">
+                <span className="flex items-center gap-2 text-sm font-medium text-foreground">
+                  {answer.passed
+                    ? <CheckCircle2 className="w-4 h-4 text-success" />
+                    : <XCircle className="w-4 h-4 text-amber-500" />}
+                  {ayahLabel(answer.surahNumber, answer.ayahNumber)}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {answer.skipped ? 'Dilewati' : `${answer.correctWords}/${answer.totalWords} kata`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background islamic-pattern">
+      <Header showBack />
+
+      <main className="container py-6 pb-24 max-w-2xl space-y-6">
+        <div className="text-center fade-in">
+          <h2 className="text-2xl font-bold text-foreground mb-2">Kuis Sambung Ayat</h2>
+          <p className="text-muted-foreground">
+            Satu ayat ditampilkan, lalu sambung dengan membaca ayat sesudahnya.
+          </p>
+        </div>
+
+        {!isSupported && (
+          <div className="text-center p-4 rounded-2xl bg-destructive/10 border border-destructive/20">
+            <p className="text-sm text-destructive">
+              Speech Recognition tidak tersedia di browser ini. Silakan gunakan Chrome atau Edge.
+            </p>
+          </div>
+        )}
+
+        <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+          <Tabs
+            value={scope.kind}
+            onValueChange={(kind) => setScope({ kind: kind as QuizScopeKind, numbers: [] })}
+          >
+            <TabsList className="grid w-full grid-cols-2 mb-4 h-11 rounded-xl">
+              <TabsTrigger value="surah" className="rounded-lg">Surah</TabsTrigger>
+              <TabsTrigger value="juz" className="rounded-lg">Juz</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="surah">
+              <Input
+                type="text"
+                placeholder="Cari surah..."
+                value={surahQuery}
+                onChange={(e) => setSurahQuery(e.target.value)}
+                className="mb-3 rounded-xl"
+              />
+              <div className="max-h-72 overflow-y-auto space-y-1 pr-1">
+                {filteredSurahs.map((s) => (
+                  <label
+                    key={s.number}
+                    className="flex items-center gap-3 rounded-lg px-3 py-2 hover:bg-secondary/50 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={scope.numbers.includes(s.number)}
+                      onCheckedChange={() => toggleScopeNumber(s.number)}
+                    />
+                    <span className="text-sm text-foreground flex-1">
+                      {s.number}. {getIndonesianName(s.number)}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{s.numberOfAyahs} ayat</span>
+                  </label>
+                ))}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="juz">
+              <div className="grid grid-cols-6 md:grid-cols-10 gap-2">
+                {Array.from({ length: SESSION_LIMITS.juz }, (_, i) => i + 1).map((n) => (
+                  <button
+                    key={n}
+                    onClick={() => toggleScopeNumber(n)}
+                    className={cn(
+                      'aspect-square rounded-xl text-sm font-semibold border transition-colors',
+                      scope.numbers.includes(n)
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'bg-card text-primary border-border hover:bg-secondary'
+                    )}
+                  >
+                    {n}
+                  </button>
+                ))}
+              </div>
+            </TabsContent>
+          </Tabs>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 mt-4 pt-4 border-t border-border">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Jumlah soal</span>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={String(questionCount)}
+                onValueChange={(value) => value && setQuestionCount(Number(value))}
+              >
+                {QUIZ_QUESTION_COUNTS.map((count) => (
+                  <ToggleGroupItem
+                    key={count}
+                    value={String(count)}
+                    className="rounded-lg text-xs data-[state=on]:bg-primary/10 data-[state=on]:text-primary"
+                  >
+                    {count}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <Button onClick={handleStart} disabled={scope.numbers.length === 0 || !isSupported} className="gap-2">
+              <Play className="w-4 h-4" />
+              Mulai Kuis
+            </Button>
+          </div>
+
+          {setupError && <p className="text-sm text-destructive mt-3">{setupError}</p>}
+        </section>
+
+        {pastResults.length > 0 && (
+          <section className="fade-in">
+            <h3 className="font-semibold text-foreground mb-3">Hasil Sebelumnya</h3>
+            <div className="space-y-2">
+              {pastResults.slice(0, 10).map((result) => (
+                <div key={result.id} className="flex items-center justify-between rounded-xl bg-card border border-border px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{result.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatSessionDate(result.startedAt)} · {result.answers.length} soal
+                    </p>
+                  </div>
+                  <span className={cn('text-lg font-bold', result.score >= 80 ? 'text-success' : 'text-amber-500')}>
+                    {result.score}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default QuizPage;
@@ -1,25 +1,78 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { useParams } from 'react-router-dom';
-import { RefreshCw } from 'lucide-react';
+import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
+import { RefreshCw, ListOrdered, CalendarCheck, Lightbulb, FileText, NotebookPen, Repeat, TriangleAlert } from 'lucide-react';
 import { Header } from '@/components/Header';
 import { VoiceIndicator } from '@/components/VoiceIndicator';
+import { LoadErrorState } from '@/components/LoadErrorState';
+import { AyahRangePicker } from '@/components/AyahRangePicker';
+import { AyahHeatStrip } from '@/components/AyahHeatStrip';
+import { MushafView } from '@/components/MushafView';
 import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { useStrictnessProfile } from '@/hooks/useStrictnessProfile';
 import {
-  fetchSurahDetail,
-  SurahDetail,
-  normalizeArabic,
-} from '@/lib/quran-api';
+  RecitationSession,
+  SESSION_KIND_LABELS,
+  SESSION_LIMITS,
+  SessionKind,
+  loadRecitationSession,
+} from '@/lib/recitation-session';
+import {
+  AyahRange,
+  formatAyahRange,
+  getRecitePath,
+  isFullSurah,
+  parseAyahRange,
+} from '@/lib/ayah-range';
+import {
+  MAX_HINT_LEVEL,
+  RecitationTracker,
+  WordStatus,
+  buildWordStatuses,
+} from '@/lib/recitation-tracker';
+import {
+  AyahProgress,
+  ayahKey,
+  collectAyahAttempts,
+  getAyahProgressFor,
+  recordAyahAttempts,
+} from '@/lib/ayah-progress';
+import { DISPLAY_MODES, DisplayMode, loadDisplayMode, saveDisplayMode } from '@/lib/display-modes';
+import { countHintedWords, getHintText, loadHintDelaySeconds } from '@/lib/hints';
+import {
+  SessionRecord,
+  createSessionId,
+  findSkippedAyahs,
+  saveSessionRecord,
+} from '@/lib/session-history';
+import {
+  SessionAudioRecorder,
+  isAudioRecordingSupported,
+  loadRecordAudioEnabled,
+  saveSessionAudio,
+} from '@/lib/session-audio';
+import { recordMistakes } from '@/lib/mistakes';
+import { SimilarVerseMap, detectDrift, loadSimilarVerseMap } from '@/lib/mutashabihat';
+import { getIndonesianName } from '@/lib/surah-translations';
+import {
+  DRILL_CHAIN_PATTERNS,
+  DRILL_REPEAT_OPTIONS,
+  DrillChainPattern,
+  DrillProgress,
+  DrillSession,
+  DrillSettings,
+  formatDrillStep,
+  loadDrillSettings,
+  recordDrillPasses,
+  saveDrillSettings,
+} from '@/lib/drill';
+import { getReviewSessionPath, getTodayReviewQueue, recordReviewOutcomes } from '@/lib/review-scheduler';
 import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
 
-interface WordStatus {
-  word: string;
-  normalized: string;
-  status: 'pending' | 'correct' | 'incorrect';
-  ayahIndex: number;
-  isLastWord: boolean;
-}
-
 // Random appreciation messages based on performance
 const ENCOURAGING_MESSAGES = [
   { title: 'Tetap Semangat!', emoji: '💪' },
@@ -55,47 +108,21 @@ const getRandomAppreciation = (isComplete: boolean, hasIncorrect: boolean) => {
   return list[Math.floor(Math.random() * list.length)];
 };
 
-// Levenshtein distance for better Arabic matching
-function levenshteinDistance(str1: string, str2: string): number {
-  const m = str1.length;
-  const n = str2.length;
-  
-  if (m === 0) return n;
-  if (n === 0) return m;
-  
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-  
-  for (let i = 0; i <= m; i++) dp[i][0] = i;
-  for (let j = 0; j <= n; j++) dp[0][j] = j;
-  
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (str1[i - 1] === str2[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1];
-      } else {
-        dp[i][j] = 1 + Math.min(dp[i - 1][j], dp[i][j - 1], dp[i - 1][j - 1]);
-      }
-    }
-  }
-  
-  return dp[m][n];
+interface RecitePageProps {
+  kind?: SessionKind;
 }
 
-// Calculate similarity using Levenshtein
-function calculateSimilarity(str1: string, str2: string): number {
-  if (str1 === str2) return 100;
-  if (str1.length === 0 || str2.length === 0) return 0;
-  
-  const distance = levenshteinDistance(str1, str2);
-  const maxLength = Math.max(str1.length, str2.length);
-  return ((maxLength - distance) / maxLength) * 100;
-}
-
-const RecitePage = () => {
-  const { surahNumber } = useParams<{ surahNumber: string }>();
-  const [surah, setSurah] = useState<SurahDetail | null>(null);
+const RecitePage = ({ kind = 'surah' }: RecitePageProps) => {
+  const params = useParams<{ surahNumber?: string; number?: string; range?: string }>();
+  const unitNumber = kind === 'surah' ? params.surahNumber : params.number;
+  const rangeParam = params.range;
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [session, setSession] = useState<RecitationSession | null>(null);
+  const surah = session?.surah ?? null;
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
   // Hasil validasi & apresiasi hanya tampil setelah user menekan STOP
   const [userStopped, setUserStopped] = useState(false);
@@ -103,12 +130,36 @@ const RecitePage = () => {
   // Word statuses - managed as state for Tarteel-style incremental matching
   const [wordStatuses, setWordStatuses] = useState<WordStatus[]>([]);
   const [currentWordIndex, setCurrentWordIndex] = useState(0);
-  const lastProcessedCountRef = useRef(0);
+  const trackerRef = useRef<RecitationTracker | null>(null);
+
+  // Persisted per-ayah progress for the heat strip
+  const [ayahProgress, setAyahProgress] = useState<Map<string, AyahProgress>>(new Map());
+
+  // Murajaah sessions offer the next due portion once stopped
+  const isReview = searchParams.get('murajaah') === '1';
+  const [nextReviewPath, setNextReviewPath] = useState<string | null>(null);
+
+  // Session history: start time of the running attempt and id of the last saved one
+  const sessionStartRef = useRef<number | null>(null);
+  const [savedSessionId, setSavedSessionId] = useState<string | null>(null);
+
+  // Microphone recording of the running attempt, saved with its session record
+  const [recordAudio] = useState(loadRecordAudioEnabled);
+  const audioRecorderRef = useRef<SessionAudioRecorder | null>(null);
+
+  // Drill (tikrar): repeat each step of the chaining pattern before moving on
+  const [isDrill, setIsDrill] = useState(() => searchParams.get('latihan') === '1');
+  const [drillSettings, setDrillSettings] = useState<DrillSettings>(loadDrillSettings);
+  const [drillProgress, setDrillProgress] = useState<DrillProgress | null>(null);
+  const drillRef = useRef<DrillSession | null>(null);
 
+  // Mutashabihat: similar ayahs elsewhere in the Quran, to warn when the reciter drifts into one
+  const [similarVerses, setSimilarVerses] = useState<SimilarVerseMap | null>(null);
 
   const {
     isListening,
     transcript,
+    heardWords,
     interimTranscript,
     isSupported,
     startListening,
@@ -117,271 +168,235 @@ const RecitePage = () => {
     error: speechError,
   } = useSpeechRecognition();
 
-  // Initialize word statuses when surah loads
-  useEffect(() => {
-    if (!surah) return;
-    
-    const statuses: WordStatus[] = [];
-    surah.ayahs.forEach((ayah, ayahIdx) => {
-      const ayahWords = ayah.text.split(' ').filter(w => w.length > 0);
-      const normalizedAyah = normalizeArabic(ayah.text);
-      const normalizedWords = normalizedAyah.split(' ').filter(w => w.length > 0);
-      
-      ayahWords.forEach((word, wordIdx) => {
-        statuses.push({
-          word,
-          normalized: normalizedWords[wordIdx] || '',
-          status: 'pending',
-          ayahIndex: ayahIdx,
-          isLastWord: wordIdx === ayahWords.length - 1,
-        });
-      });
+  const { profile, similarityWeights } = useStrictnessProfile();
+  const [hintDelaySeconds] = useState(loadHintDelaySeconds);
+  const [displayMode, setDisplayMode] = useState<DisplayMode>(loadDisplayMode);
+  const scrollTargetRef = useRef<HTMLSpanElement | null>(null);
+
+  // Selected ayah range (whole surah by default)
+  const range = useMemo<AyahRange | null>(() => {
+    if (!surah) return null;
+    return parseAyahRange(rangeParam, searchParams, surah.numberOfAyahs);
+  }, [surah, rangeParam, searchParams]);
+
+  const sessionAyahs = useMemo(() => {
+    if (!session) return [];
+    if (!range) return session.ayahs;
+    return session.ayahs.filter(a => a.numberInSurah >= range.from && a.numberInSurah <= range.to);
+  }, [session, range]);
+
+  const surahNames = useMemo(() => {
+    const names: Record<number, string> = {};
+    sessionAyahs.forEach(a => {
+      names[a.surah.number] = a.surah.name;
     });
-    
-    setWordStatuses(statuses);
-    setCurrentWordIndex(0);
-    lastProcessedCountRef.current = 0;
-  }, [surah]);
+    return names;
+  }, [sessionAyahs]);
 
-  // Tarteel-style incremental matching - process one word at a time
+  const rangeLabel = surah && range && !isFullSurah(range, surah.numberOfAyahs)
+    ? `Ayat ${formatAyahRange(range)}`
+    : null;
+
+  const sessionName = surah
+    ? `Surah ${surah.englishName}${rangeLabel ? ` ${rangeLabel.toLowerCase()}` : ''}`
+    : session?.title ?? '';
+
+  // Initialize word statuses when the surah or range loads (or the drill is set up)
   useEffect(() => {
-    if (!isListening || wordStatuses.length === 0) return;
-    if (currentWordIndex >= wordStatuses.length) return;
-    
-    // Combine transcript for matching
-    const fullTranscript = transcript.trim();
-    const normalizedFull = normalizeArabic(fullTranscript);
-    const userWords = normalizedFull.split(' ').filter(w => w.length > 0);
-
-    // Only process NEW words that haven't been processed yet
-    const lastProcessedCount = lastProcessedCountRef.current;
-    if (userWords.length <= lastProcessedCount) return;
-
-    const newWords = userWords.slice(lastProcessedCount);
-
-    // Process each new word one by one
-    let newCurrentIndex = currentWordIndex;
-    const updatedStatuses = [...wordStatuses];
-    let processedInThisRun = 0;
-
-    for (let wIdx = 0; wIdx < newWords.length; wIdx++) {
-      const userWord = newWords[wIdx];
-
-      if (newCurrentIndex >= wordStatuses.length) {
-        processedInThisRun++;
-        continue;
-      }
+    if (sessionAyahs.length === 0) return;
+
+    const drill = isDrill ? new DrillSession(sessionAyahs, drillSettings) : null;
+    const tracker = drill ? drill.tracker : new RecitationTracker(buildWordStatuses(sessionAyahs));
+    drillRef.current = drill;
+    trackerRef.current = tracker;
+    setDrillProgress(drill?.progress ?? null);
+    setWordStatuses(tracker.wordStatuses);
+    setCurrentWordIndex(tracker.currentWordIndex);
+    // The page stays mounted when moving to the next murajaah portion
+    setUserStopped(false);
+    setNextReviewPath(null);
+    setSavedSessionId(null);
+  }, [sessionAyahs, isDrill, drillSettings]);
 
-      const currentRef = wordStatuses[newCurrentIndex];
-
-      // TOLERAN (dalam ayat): fokus ke hafalan, bukan tajwid
-      // Tapi AWAL AYAT harus lebih ketat supaya ayat berikutnya tidak kebuka karena noise.
-      const isAyahStart =
-        newCurrentIndex === 0 || wordStatuses[newCurrentIndex - 1]?.isLastWord;
-
-      const baseThreshold = isAyahStart ? 60 : 40;
-      const shortWordBoost = (currentRef.normalized?.length || 0) <= 2 ? 20 : 0;
-      const CURRENT_MATCH_THRESHOLD = Math.min(85, baseThreshold + shortWordBoost);
-
-      // KETAT untuk skip: hanya tandai "terlewat" kalau benar-benar yakin user lompat.
-      // Dibuat ekstra ketat saat pindah ayat supaya ayat berikutnya tidak kebuka karena noise.
-      const SKIP_DETECT_THRESHOLD_SAME_AYAH = 85;
-      const SKIP_DETECT_THRESHOLD_NEXT_AYAH = 92;
-      const SKIP_CONFIRM_THRESHOLD_SAME_AYAH = 70;
-      const SKIP_CONFIRM_THRESHOLD_NEXT_AYAH = 85;
-
-      const currentSimilarity = calculateSimilarity(userWord, currentRef.normalized);
-
-      if (currentSimilarity >= CURRENT_MATCH_THRESHOLD) {
-        // Anti-bocor ayat: kalau ini awal ayat, butuh konfirmasi 2 kata supaya noise 1 kata
-        // tidak langsung membuka ayat berikutnya.
-        if (isAyahStart) {
-          const nextExpectedStart = wordStatuses[newCurrentIndex + 1]?.normalized;
-          const nextUserWordStart = newWords[wIdx + 1];
-
-          // Kalau belum ada kata berikutnya, tunggu dulu (jangan advance)
-          if (nextExpectedStart && !nextUserWordStart) {
-            break;
-          }
-
-          if (nextExpectedStart && nextUserWordStart) {
-            const nextSimStart = calculateSimilarity(nextUserWordStart, nextExpectedStart);
-            const START_CONFIRM_THRESHOLD = 45;
-
-            if (nextSimStart < START_CONFIRM_THRESHOLD) {
-              // Kemungkinan noise yang kebetulan mirip kata pertama -> abaikan
-              processedInThisRun++;
-              continue;
-            }
-          }
-        }
-
-        updatedStatuses[newCurrentIndex] = {
-          ...currentRef,
-          status: 'correct',
-        };
-        newCurrentIndex++;
-        processedInThisRun++;
-        continue;
-      }
+  // Apply the active strictness profile (also at runtime when it changes)
+  useEffect(() => {
+    trackerRef.current?.setThresholds(profile.thresholds);
+    trackerRef.current?.setSimilarityWeights(similarityWeights);
+    drillRef.current?.setTrackerOptions({ thresholds: profile.thresholds, weights: similarityWeights });
+  }, [profile, similarityWeights, sessionAyahs, isDrill, drillSettings]);
 
-      // Cek skip hanya di window kecil (hemat & stabil)
-      const currentAyah = currentRef.ayahIndex;
-      let foundAhead = -1;
-
-      for (let i = newCurrentIndex + 1; i < Math.min(newCurrentIndex + 6, wordStatuses.length); i++) {
-        const sameAyah = wordStatuses[i].ayahIndex === currentAyah;
-        const isNextAyahFirstWord =
-          currentRef.isLastWord &&
-          i === newCurrentIndex + 1 &&
-          wordStatuses[i].ayahIndex === currentAyah + 1;
-
-        if (!sameAyah && !isNextAyahFirstWord) break;
-
-        const candidate = wordStatuses[i];
-        const isCrossAyah = isNextAyahFirstWord;
-        const minLen = isCrossAyah ? 4 : 3;
-        if ((candidate.normalized?.length || 0) < minLen) continue;
-
-        const detectThreshold = isCrossAyah
-          ? SKIP_DETECT_THRESHOLD_NEXT_AYAH
-          : SKIP_DETECT_THRESHOLD_SAME_AYAH;
-
-        const aheadSimilarity = calculateSimilarity(userWord, candidate.normalized);
-        if (aheadSimilarity >= detectThreshold) {
-          foundAhead = i;
-          break;
-        }
-      }
+  // Tarteel-style incremental matching - the tracker processes one word at a time
+  useEffect(() => {
+    const tracker = trackerRef.current;
+    if (!isListening || !tracker) return;
 
-      if (foundAhead !== -1) {
-        const nextUserWord = newWords[wIdx + 1];
-        const nextExpected = wordStatuses[foundAhead + 1]?.normalized;
-
-        // Kalau belum ada kata berikutnya, JANGAN putuskan "terlewat" dulu.
-        // Kita tunggu update transcript berikutnya biar tidak false-positive.
-        if (!nextUserWord) {
-          break;
-        }
-
-        const nextSimilarity = nextExpected
-          ? calculateSimilarity(nextUserWord, nextExpected)
-          : 0;
-
-        const isCrossAyahJump =
-          currentRef.isLastWord &&
-          wordStatuses[foundAhead].ayahIndex === currentAyah + 1;
-
-        const baseConfirmThreshold = isCrossAyahJump
-          ? SKIP_CONFIRM_THRESHOLD_NEXT_AYAH
-          : SKIP_CONFIRM_THRESHOLD_SAME_AYAH;
-
-        const nextLen = nextExpected?.length || 0;
-        const confirmBoost = nextLen <= 2 ? 10 : 0;
-        const requiredConfirm = Math.min(95, baseConfirmThreshold + confirmBoost);
-
-        if (nextExpected && nextSimilarity >= requiredConfirm) {
-          // User benar-benar lompat -> tandai kata yang dilewati sebagai incorrect
-          for (let i = newCurrentIndex; i < foundAhead; i++) {
-            const sameAyah = wordStatuses[i].ayahIndex === currentAyah;
-            const isNextAyahFirstWord =
-              currentRef.isLastWord &&
-              i === newCurrentIndex + 1 &&
-              wordStatuses[i].ayahIndex === currentAyah + 1;
-
-            if (!sameAyah && !isNextAyahFirstWord) break;
-
-            updatedStatuses[i] = {
-              ...wordStatuses[i],
-              status: 'incorrect',
-            };
-          }
-
-          updatedStatuses[foundAhead] = {
-            ...wordStatuses[foundAhead],
-            status: 'correct',
-          };
-          newCurrentIndex = foundAhead + 1;
-          processedInThisRun++;
-          continue;
-        }
-      }
+    const transitions = tracker.syncHeardWords(heardWords);
+    if (transitions.length === 0) return;
 
-      // Fallback: kalau user benar-benar lompat beberapa ayat ke depan (misal dari ayat 6 ke ayat 7/9),
-      // kita cari "awal ayat" berikutnya yang match sangat tinggi dan dikonfirmasi 2 kata.
-      // Tujuannya: ayat yang dibaca user tetap muncul (tidak dianggap noise).
-      if (foundAhead === -1 && isAyahStart) {
-        const nextUserWord = newWords[wIdx + 1];
-        if (!nextUserWord) {
-          // butuh 2 kata untuk konfirmasi
-          break;
-        }
-
-        const LONG_JUMP_MAX_AYAHS_AHEAD = 12;
-        const LONG_JUMP_DETECT_THRESHOLD = 95;
-        const LONG_JUMP_CONFIRM_THRESHOLD = 60;
-
-        let bestIdx = -1;
-        let bestSim = 0;
-
-        for (let i = newCurrentIndex + 1; i < wordStatuses.length; i++) {
-          const ayahIdx = wordStatuses[i].ayahIndex;
-          if (ayahIdx <= currentAyah + 1) continue; // biarkan next-ayah ditangani oleh logic biasa
-          if (ayahIdx > currentAyah + LONG_JUMP_MAX_AYAHS_AHEAD) break;
-
-          const isStart = i === 0 || wordStatuses[i - 1]?.isLastWord;
-          if (!isStart) continue;
-
-          const cand = wordStatuses[i];
-          if ((cand.normalized?.length || 0) < 4) continue;
-
-          const sim = calculateSimilarity(userWord, cand.normalized);
-          if (sim > bestSim) {
-            bestSim = sim;
-            bestIdx = i;
-          }
-        }
-
-        if (bestIdx !== -1 && bestSim >= LONG_JUMP_DETECT_THRESHOLD) {
-          const nextExpected = wordStatuses[bestIdx + 1]?.normalized;
-          const nextSim = nextExpected
-            ? calculateSimilarity(nextUserWord, nextExpected)
-            : 0;
-
-          if (!nextExpected || nextSim >= LONG_JUMP_CONFIRM_THRESHOLD) {
-            for (let i = newCurrentIndex; i < bestIdx; i++) {
-              updatedStatuses[i] = {
-                ...wordStatuses[i],
-                status: 'incorrect',
-              };
-            }
-
-            updatedStatuses[bestIdx] = {
-              ...wordStatuses[bestIdx],
-              status: 'correct',
-            };
-
-            newCurrentIndex = bestIdx + 1;
-            processedInThisRun++;
-            continue;
-          }
-        }
-      }
+    // Drill: a finished pass starts the next one from an empty transcript
+    const drill = drillRef.current;
+    if (drill?.completePass() && !drill.isFinished) {
+      trackerRef.current = drill.tracker;
+      resetTranscript();
+    }
+    if (drill) setDrillProgress(drill.progress);
+
+    setWordStatuses(trackerRef.current.wordStatuses);
+    setCurrentWordIndex(trackerRef.current.currentWordIndex);
+  }, [heardWords, isListening, resetTranscript]);
+
+  // Words the interim result already matches are shown right away as tentative; the final
+  // result then confirms them or they fall back to pending
+  const interimPreview = useMemo(() => {
+    if (!isListening || !interimTranscript || wordStatuses.length === 0) return null;
+    return trackerRef.current?.previewInterim(interimTranscript) ?? null;
+  }, [isListening, interimTranscript, wordStatuses]);
+
+  const progressAyahs = useMemo(() => {
+    return sessionAyahs.map(a => ({ surahNumber: a.surah.number, ayahNumber: a.numberInSurah }));
+  }, [sessionAyahs]);
 
-      // Kalau tidak match DAN tidak terkonfirmasi skip -> anggap noise dari STT.
-      // Jangan advance; tapi kata user tetap dianggap "diproses" supaya tidak nyangkut.
-      processedInThisRun++;
+  useEffect(() => {
+    if (progressAyahs.length === 0) return;
+    getAyahProgressFor(progressAyahs).then(setAyahProgress).catch(() => {});
+  }, [progressAyahs]);
+
+  // Stop listening and persist the attempt: per-ayah progress, murajaah schedule and session history
+  const finishSession = useCallback(() => {
+    setUserStopped(true);
+    stopListening();
+
+    const recorder = audioRecorderRef.current;
+    audioRecorderRef.current = null;
+
+    const tracker = trackerRef.current;
+    if (!tracker || !session) {
+      recorder?.discard();
+      return;
+    }
+
+    // Drill passes only feed per-ayah progress and the mistake notebook; the repetitions
+    // are practice, not a murajaah of the whole session
+    const drill = drillRef.current;
+    if (drill) {
+      recorder?.discard();
+      recordDrillPasses(drill.takePasses())
+        .then(updated => {
+          setAyahProgress(prev => {
+            const next = new Map(prev);
+            updated.forEach(p => next.set(p.key, p));
+            return next;
+          });
+        })
+        .catch(() => {});
+      return;
     }
 
-    // Update state
-    if (newCurrentIndex !== currentWordIndex) {
-      setWordStatuses(updatedStatuses);
-      setCurrentWordIndex(newCurrentIndex);
+    const finalStatuses = tracker.wordStatuses;
+    if (finalStatuses.every(w => w.status === 'pending')) {
+      recorder?.discard();
+      return;
     }
 
-    lastProcessedCountRef.current = lastProcessedCount + processedInThisRun;
-    
-  }, [transcript, isListening, wordStatuses, currentWordIndex]);
+    const endedAt = Date.now();
+    const startedAt = sessionStartRef.current ?? endedAt;
+    const record: SessionRecord = {
+      id: createSessionId(startedAt),
+      kind: session.kind,
+      number: session.number,
+      range: surah && range && !isFullSurah(range, surah.numberOfAyahs) ? range : null,
+      title: sessionName,
+      subtitle: session.subtitle,
+      surahNames,
+      startedAt,
+      endedAt,
+      durationMs: endedAt - startedAt,
+      wordStatuses: finalStatuses,
+      skippedAyahs: findSkippedAyahs(finalStatuses),
+      profileId: profile.id,
+      profileName: profile.name,
+      completed: tracker.isComplete,
+    };
+    saveSessionRecord(record)
+      .then(() => setSavedSessionId(record.id))
+      .catch(() => {});
+    recorder?.stop()
+      .then(audio => audio && saveSessionAudio({ ...audio, sessionId: record.id }))
+      .catch(() => {});
+    recordMistakes(finalStatuses, endedAt).catch(() => {});
+
+    const attempts = collectAyahAttempts(finalStatuses);
+    if (attempts.length === 0) return;
+
+    recordAyahAttempts(attempts)
+      .then(updated => {
+        setAyahProgress(prev => {
+          const next = new Map(prev);
+          updated.forEach(p => next.set(p.key, p));
+          return next;
+        });
+      })
+      .catch(() => {});
+
+    recordReviewOutcomes(attempts)
+      .then(() => getTodayReviewQueue())
+      .then(queue => setNextReviewPath(queue.length > 0 ? getReviewSessionPath(queue[0]) : '/review'))
+      .catch(() => setNextReviewPath('/review'));
+  }, [stopListening, session, surah, range, sessionName, surahNames, profile]);
+
+  // Reveal one more hint level for the word the user is stuck on
+  const handleHint = useCallback(() => {
+    const tracker = trackerRef.current;
+    if (!tracker || !tracker.requestHint()) return;
+    setWordStatuses(tracker.wordStatuses);
+  }, []);
+
+  // Petunjuk otomatis kalau user diam terlalu lama; timer diulang setiap ada suara baru
+  // atau setelah petunjuk muncul, sehingga petunjuk bertambah bertahap
+  useEffect(() => {
+    if (!isListening || hintDelaySeconds === 0) return;
+
+    const timer = setTimeout(handleHint, hintDelaySeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [isListening, hintDelaySeconds, transcript, interimTranscript, wordStatuses, handleHint]);
+
+  const handleDisplayModeChange = useCallback((mode: string) => {
+    if (!mode) return;
+    setDisplayMode(mode as DisplayMode);
+    saveDisplayMode(mode as DisplayMode);
+  }, []);
+
+  // The similar-verse map needs the whole Quran in the offline cache; without it there are simply
+  // no warnings. Only loaded once the user starts reciting.
+  useEffect(() => {
+    if (!isListening || similarVerses) return;
+    loadSimilarVerseMap().then(setSimilarVerses).catch(() => {});
+  }, [isListening, similarVerses]);
+
+  // Compare the latest words with the ayah being recited and its mutashabihat siblings
+  const drift = useMemo(() => {
+    const current = wordStatuses[currentWordIndex];
+    if (!isListening || !similarVerses || !current) return null;
+
+    const siblings = similarVerses.get(ayahKey(current.surahNumber, current.ayahNumber));
+    const position = sessionAyahs.findIndex(
+      a => a.surah.number === current.surahNumber && a.numberInSurah === current.ayahNumber
+    );
+    if (!siblings || position === -1) return null;
+
+    const expected = sessionAyahs[position];
+    const into = detectDrift(transcript, expected, siblings, sessionAyahs[position - 1], similarityWeights);
+    return into ? { expected, into } : null;
+  }, [isListening, similarVerses, wordStatuses, currentWordIndex, sessionAyahs, transcript, similarityWeights]);
+
+  // Keep the word being recited in view: the current word when the text is visible,
+  // otherwise the last revealed word
+  const scrollTargetIndex = displayMode === 'blind' ? currentWordIndex - 1 : currentWordIndex;
+
+  useEffect(() => {
+    if (!isListening) return;
+    scrollTargetRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [isListening, scrollTargetIndex]);
 
   // Check how many words have been spoken
   const spokenWordsCount = useMemo(() => {
@@ -398,73 +413,101 @@ const RecitePage = () => {
   // itu ditangani di hook dengan auto-restart.
   useEffect(() => {
     if (allComplete && isListening) {
-      setUserStopped(true);
-      stopListening();
+      finishSession();
     }
-  }, [allComplete, isListening, stopListening]);
+  }, [allComplete, isListening, finishSession]);
 
-  // Load surah data
+  // Load surah / page / juz / hizb / ruku data
   useEffect(() => {
-    async function loadSurah() {
-      if (!surahNumber) return;
+    async function loadSession() {
+      if (!unitNumber) return;
 
       try {
         setIsLoading(true);
-        const data = await fetchSurahDetail(parseInt(surahNumber));
-        setSurah(data);
+        setError(null);
+        const data = await loadRecitationSession(kind, Number(unitNumber));
+        setSession(data);
       } catch (err) {
-        setError('Gagal memuat surah. Silakan coba lagi.');
+        setError(err);
       } finally {
         setIsLoading(false);
       }
     }
-    loadSurah();
-  }, [surahNumber]);
+    loadSession();
+  }, [kind, unitNumber, reloadKey]);
 
   // Reset all word statuses to pending
   const resetWordStatuses = useCallback(() => {
+    const drill = drillRef.current;
+    if (drill) {
+      drill.restart();
+      trackerRef.current = drill.tracker;
+      setDrillProgress(drill.progress);
+    }
+
+    const tracker = trackerRef.current;
+    if (!tracker) return;
+
+    tracker.reset();
+    setWordStatuses(tracker.wordStatuses);
+    setCurrentWordIndex(tracker.currentWordIndex);
+  }, []);
+
+  const handleDrillSettingsChange = useCallback((settings: DrillSettings) => {
+    setDrillSettings(settings);
+    saveDrillSettings(settings);
+  }, []);
+
+  const handleRangeSelect = useCallback((selected: AyahRange) => {
     if (!surah) return;
-    
-    const statuses: WordStatus[] = [];
-    surah.ayahs.forEach((ayah, ayahIdx) => {
-      const ayahWords = ayah.text.split(' ').filter(w => w.length > 0);
-      const normalizedAyah = normalizeArabic(ayah.text);
-      const normalizedWords = normalizedAyah.split(' ').filter(w => w.length > 0);
-      
-      ayahWords.forEach((word, wordIdx) => {
-        statuses.push({
-          word,
-          normalized: normalizedWords[wordIdx] || '',
-          status: 'pending',
-          ayahIndex: ayahIdx,
-          isLastWord: wordIdx === ayahWords.length - 1,
-        });
-      });
-    });
-    
-    setWordStatuses(statuses);
-    setCurrentWordIndex(0);
-    lastProcessedCountRef.current = 0;
-  }, [surah]);
+    navigate(getRecitePath(surah.number, selected, surah.numberOfAyahs), { replace: true });
+  }, [surah, navigate]);
 
   // Handle voice toggle
   const handleVoiceToggle = useCallback(() => {
     if (isListening) {
       // User explicitly stops -> show results
-      setUserStopped(true);
-      stopListening();
+      finishSession();
     } else {
       // User explicitly starts -> hide results until stop
       setUserStopped(false);
+      setSavedSessionId(null);
       resetTranscript();
-      resetWordStatuses();
+      sessionStartRef.current = Date.now();
       startListening();
+
+      // A drill resumes at its current step; only Ulangi or a new session start it over
+      const drill = drillRef.current;
+      if (drill && !drill.isFinished) {
+        drill.resumePass();
+        setWordStatuses(drill.tracker.wordStatuses);
+        setCurrentWordIndex(drill.tracker.currentWordIndex);
+      } else {
+        resetWordStatuses();
+      }
+
+      // Drill repetitions are not saved as sessions, so there is nothing to attach audio to
+      if (recordAudio && !isDrill && isAudioRecordingSupported()) {
+        const recorder = new SessionAudioRecorder();
+        audioRecorderRef.current?.discard();
+        audioRecorderRef.current = recorder;
+        recorder.start().catch(() => {
+          if (audioRecorderRef.current === recorder) audioRecorderRef.current = null;
+        });
+      }
     }
-  }, [isListening, startListening, stopListening, resetTranscript, resetWordStatuses]);
+  }, [isListening, startListening, finishSession, resetTranscript, resetWordStatuses, recordAudio, isDrill]);
+
+  // Leaving the page mid-recitation drops the recording (and releases the microphone)
+  useEffect(() => {
+    return () => audioRecorderRef.current?.discard();
+  }, []);
 
   // Retry - reset transcript and word statuses
   const handleRetry = useCallback(() => {
     setUserStopped(false);
+    setSavedSessionId(null);
+    sessionStartRef.current = Date.now();
     resetTranscript();
     resetWordStatuses();
   }, [resetTranscript, resetWordStatuses]);
@@ -475,24 +518,22 @@ const RecitePage = () => {
         <Header showBack />
         <div className="flex flex-col items-center justify-center py-32">
           <div className="w-16 h-16 rounded-full border-4 border-primary/20 border-t-primary animate-spin" />
-          <p className="mt-4 text-muted-foreground">Memuat surah...</p>
+          <p className="mt-4 text-muted-foreground">Memuat {SESSION_KIND_LABELS[kind].toLowerCase()}...</p>
         </div>
       </div>
     );
   }
 
-  if (error || !surah) {
+  if (error || !session) {
     return (
       <div className="min-h-screen bg-background islamic-pattern">
         <Header showBack minimalMode />
-        <div className="flex flex-col items-center justify-center py-32">
-          <p className="text-destructive mb-4">{error || 'Surah tidak ditemukan'}</p>
-          <button
-            onClick={() => window.location.reload()}
-            className="btn-islamic px-6 py-3 rounded-xl"
-          >
-            Coba Lagi
-          </button>
+        <div className="py-12">
+          <LoadErrorState
+            error={error}
+            onRetry={() => setReloadKey(k => k + 1)}
+            notFoundMessage={`${SESSION_KIND_LABELS[kind]} ${unitNumber} tidak ditemukan. Nomor ${SESSION_KIND_LABELS[kind].toLowerCase()} harus antara 1 dan ${SESSION_LIMITS[kind]}.`}
+          />
         </div>
       </div>
     );
@@ -501,14 +542,14 @@ const RecitePage = () => {
   if (!isSupported) {
     return (
       <div className="min-h-screen bg-background islamic-pattern">
-        <Header title={surah.name} subtitle={surah.englishName} showBack minimalMode />
+        <Header title={session.title} subtitle={session.subtitle} showBack minimalMode />
         <div className="container py-12">
           <div className="text-center p-8 rounded-2xl bg-destructive/10 border border-destructive/20">
             <p className="text-destructive font-semibold mb-2">
               Browser Tidak Didukung
             </p>
             <p className="text-muted-foreground text-sm">
-              Speech Recognition tidak tersedia di browser ini. Silakan gunakan Chrome atau Edge.
+              Speech Recognition tidak tersedia di browser ini. Silakan gunakan Chrome atau Edge, atau atur server pengenal suara sendiri di Pengaturan.
             </p>
           </div>
         </div>
@@ -518,83 +559,151 @@ const RecitePage = () => {
 
   return (
     <div className="min-h-screen bg-background">
-      <Header title={surah.name} subtitle={surah.englishName} showBack minimalMode />
+      <Header title={session.title} subtitle={session.subtitle} showBack minimalMode />
 
       <main className="container py-6 pb-48 md:pb-40">
         {/* Ayah Display - Tarteel Style */}
         <div className="bg-card rounded-2xl border border-border p-4 md:p-6 mb-6 fade-in">
           {/* Surah Title */}
           <div className="text-center mb-6 pb-4 border-b border-border">
-            <p className="font-arabic text-2xl md:text-3xl text-primary">{surah.name}</p>
+            {surah ? (
+              <>
+                <p className="font-arabic text-2xl md:text-3xl text-primary">{surah.name}</p>
+                <AyahRangePicker
+                  numberOfAyahs={surah.numberOfAyahs}
+                  value={range}
+                  onSelect={handleRangeSelect}
+                  disabled={isListening}
+                >
+                  <Button variant="ghost" size="sm" className="mt-2 gap-2 text-muted-foreground">
+                    <ListOrdered className="w-4 h-4" />
+                    {rangeLabel ?? 'Semua Ayat'}
+                  </Button>
+                </AyahRangePicker>
+              </>
+            ) : (
+              <>
+                <p className="text-xl md:text-2xl font-semibold text-primary">{session.title}</p>
+                <p className="text-sm text-muted-foreground mt-1">{session.subtitle}</p>
+              </>
+            )}
+            <div className="mt-4">
+              <AyahHeatStrip ayahs={progressAyahs} progress={ayahProgress} />
+            </div>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={displayMode}
+              onValueChange={handleDisplayModeChange}
+              className="mt-4 flex-wrap"
+            >
+              {DISPLAY_MODES.map((mode) => (
+                <ToggleGroupItem
+                  key={mode.id}
+                  value={mode.id}
+                  title={mode.description}
+                  className="rounded-lg text-xs data-[state=on]:bg-primary/10 data-[state=on]:text-primary"
+                >
+                  {mode.name}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <div className="mt-4 flex items-center justify-center gap-2">
+              <Switch id="drill-mode" checked={isDrill} onCheckedChange={setIsDrill} disabled={isListening} />
+              <Label htmlFor="drill-mode" className="flex items-center gap-1 text-sm text-muted-foreground">
+                <Repeat className="w-4 h-4" />
+                Mode Latihan (Tikrar)
+              </Label>
+            </div>
+            {isDrill && drillProgress && (
+              <div className="mt-3 rounded-xl bg-secondary/50 p-3 space-y-3">
+                <div className="flex flex-wrap justify-center gap-2">
+                  <Select
+                    value={String(drillSettings.repeatCount)}
+                    onValueChange={(value) => handleDrillSettingsChange({ ...drillSettings, repeatCount: Number(value) })}
+                    disabled={isListening}
+                  >
+                    <SelectTrigger className="w-32 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DRILL_REPEAT_OPTIONS.map((count) => (
+                        <SelectItem key={count} value={String(count)}>Ulang {count}x</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={drillSettings.pattern}
+                    onValueChange={(value) => handleDrillSettingsChange({ ...drillSettings, pattern: value as DrillChainPattern })}
+                    disabled={isListening}
+                  >
+                    <SelectTrigger className="w-40 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DRILL_CHAIN_PATTERNS.map((pattern) => (
+                        <SelectItem key={pattern.id} value={pattern.id}>{pattern.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {drillProgress.isFinished ? (
+                  <p className="text-sm font-semibold text-success">Latihan selesai. MasyaAllah!</p>
+                ) : (
+                  <div>
+                    <p className="text-sm font-semibold text-foreground">
+                      Langkah {drillProgress.stepIndex + 1} dari {drillProgress.stepCount}:{' '}
+                      {formatDrillStep(drillProgress.step, sessionAyahs)}
+                    </p>
+                    <div className="flex justify-center gap-1 mt-2">
+                      {Array.from({ length: drillProgress.repeatCount }, (_, i) => (
+                        <span
+                          key={i}
+                          className={cn(
+                            'w-2.5 h-2.5 rounded-full',
+                            i < drillProgress.repetitions ? 'bg-success' : 'bg-muted-foreground/20'
+                          )}
+                        />
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Ulangan {drillProgress.repetitions} dari {drillProgress.repeatCount}
+                    </p>
+                    {drillProgress.lastPass && (
+                      <p className={cn(
+                        'text-xs mt-1',
+                        drillProgress.lastPass === 'passed' ? 'text-success' : 'text-amber-600'
+                      )}>
+                        {drillProgress.lastPass === 'passed'
+                          ? 'Ulangan berhasil, lanjutkan!'
+                          : 'Ada kata terlewat atau dibantu petunjuk, ulangan tidak dihitung.'}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* All Words - Horizontal Mushaf Style */}
           <div dir="rtl">
-            {spokenWordsCount > 0 ? (
-              <p className="font-arabic text-2xl md:text-3xl leading-[2.8] text-right">
-                {wordStatuses.map((wordStatus, idx) => {
-                  if (wordStatus.status === 'pending') return null;
-                  
-                  const isSkipped = wordStatus.status === 'incorrect';
-                  
-                  // Check if this is the first skipped word of an ayah (to show ayah label)
-                  const isFirstSkippedInAyah = isSkipped && (
-                    idx === 0 || 
-                    wordStatuses[idx - 1]?.ayahIndex !== wordStatus.ayahIndex ||
-                    wordStatuses[idx - 1]?.status !== 'incorrect'
-                  );
-                  
-                  // Check if entire ayah was skipped
-                  const ayahWords = wordStatuses.filter(w => w.ayahIndex === wordStatus.ayahIndex);
-                  const allAyahSkipped = ayahWords.every(w => w.status === 'incorrect');
-                  const someAyahSkipped = ayahWords.some(w => w.status === 'incorrect');
-                  
-                  return (
-                    <span key={idx} className="relative group inline">
-                      {/* Show "Ayat X Terlewat" label at start of skipped ayah */}
-                      {isFirstSkippedInAyah && allAyahSkipped && (
-                        <span className="inline-flex items-center gap-1 mx-2 px-2 py-0.5 text-xs bg-amber-500/20 text-amber-600 dark:text-amber-400 rounded-full font-sans whitespace-nowrap">
-                          ⚠️ Ayat {wordStatus.ayahIndex + 1} Terlewat
-                        </span>
-                      )}
-                      <span
-                        className={cn(
-                          'px-0.5 rounded transition-all duration-200',
-                          wordStatus.status === 'correct' && 'text-success',
-                          isSkipped && 'text-amber-500 bg-amber-500/10'
-                        )}
-                      >
-                        {wordStatus.word}
-                      </span>
-                      {/* Tooltip for individual skipped words (within partially correct ayah) */}
-                      {isSkipped && !allAyahSkipped && (
-                        <span className="absolute -top-8 right-0 z-10 hidden group-hover:block bg-amber-500 text-white text-xs px-2 py-1 rounded whitespace-nowrap font-sans">
-                          Kata terlewat
-                        </span>
-                      )}
-                      {/* Ayah end marker */}
-                      {wordStatus.isLastWord && (
-                        <span className={cn(
-                          "inline-flex items-center justify-center w-6 h-6 mx-1 text-xs rounded-full border font-sans",
-                          allAyahSkipped
-                            ? "border-amber-500/50 text-amber-500 bg-amber-500/10"
-                            : someAyahSkipped
-                              ? "border-amber-500/30 text-amber-600"
-                              : "border-primary/30 text-primary"
-                        )}>
-                          {wordStatus.ayahIndex + 1}
-                        </span>
-                      )}
-                      {!wordStatus.isLastWord && <span className="inline"> </span>}
-                    </span>
-                  );
-                })}
-              </p>
+            {spokenWordsCount > 0 || interimPreview || displayMode !== 'blind' ? (
+              <MushafView
+                wordStatuses={interimPreview?.wordStatuses ?? wordStatuses}
+                tentativeIndices={interimPreview?.tentativeIndices}
+                surahNames={surahNames}
+                displayMode={displayMode}
+                currentWordIndex={interimPreview?.currentWordIndex ?? currentWordIndex}
+                scrollTargetIndex={scrollTargetIndex}
+                scrollTargetRef={scrollTargetRef}
+              />
             ) : (
               // Empty state
               <div className="text-center py-8">
                 <p className="text-muted-foreground text-lg mb-2">
-                  Surah {surah.englishName} ({surah.numberOfAyahs} Ayat)
+                  {surah
+                    ? `Surah ${surah.englishName} (${rangeLabel ?? `${surah.numberOfAyahs} Ayat`})`
+                    : `${session.title} · ${session.subtitle} (${sessionAyahs.length} Ayat)`}
                 </p>
                 <p className="text-muted-foreground/60 text-sm">
                   Silakan mulai membaca, ayat akan muncul secara real-time...
@@ -604,6 +713,48 @@ const RecitePage = () => {
           </div>
         </div>
 
+        {/* Mutashabihat drift warning */}
+        {drift && (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-amber-500/10 border border-amber-500/20 mb-6 fade-in">
+            <TriangleAlert className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-semibold text-amber-600">Hati-hati, ayat mirip!</p>
+              <p className="text-muted-foreground">
+                Bacaan Anda lebih cocok dengan {getIndonesianName(drift.into.surah.number)} ayat{' '}
+                {drift.into.numberInSurah}. Kembali ke {getIndonesianName(drift.expected.surah.number)} ayat{' '}
+                {drift.expected.numberInSurah}.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Hint */}
+        {isListening && !allComplete && (() => {
+          const currentWord = wordStatuses[currentWordIndex];
+          const hintText = getHintText(wordStatuses, currentWordIndex);
+
+          return (
+            <div className="flex flex-col items-center gap-3 mb-6">
+              {hintText && (
+                <div className="px-4 py-2 rounded-xl bg-sky-500/10 border border-sky-500/20 text-center fade-in">
+                  <p className="text-xs text-sky-600 dark:text-sky-400 mb-1">Petunjuk</p>
+                  <p dir="rtl" className="font-arabic text-2xl md:text-3xl text-foreground">{hintText}</p>
+                </div>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleHint}
+                disabled={!currentWord || currentWord.hintLevel >= MAX_HINT_LEVEL}
+                className="gap-2 text-sky-600 dark:text-sky-400"
+              >
+                <Lightbulb className="w-4 h-4" />
+                {currentWord && currentWord.hintLevel > 0 ? 'Petunjuk Lagi' : 'Minta Petunjuk'}
+              </Button>
+            </div>
+          );
+        })()}
+
         {/* Retry button */}
         {spokenWordsCount > 0 && !allComplete && (
           <div className="flex justify-center mb-6">
@@ -629,7 +780,10 @@ const RecitePage = () => {
         {/* Completion/Appreciation Message */}
         {userStopped && spokenWordsCount > 0 && (() => {
           const hasIncorrect = wordStatuses.some(w => w.status === 'incorrect');
-          const appreciation = getRandomAppreciation(allComplete, hasIncorrect);
+          const hintedCount = countHintedWords(wordStatuses);
+          // Hinted words keep a finished session from counting as perfect
+          const isPerfect = allComplete && !hasIncorrect && hintedCount === 0;
+          const appreciation = getRandomAppreciation(isPerfect, hasIncorrect);
           const progressPercent = Math.round((spokenWordsCount / wordStatuses.length) * 100);
           const incorrectCount = wordStatuses.filter(w => w.status === 'incorrect').length;
           
@@ -648,21 +802,46 @@ const RecitePage = () => {
                 {appreciation.title}
               </h3>
               <p className="text-muted-foreground text-sm md:text-base">
-                {allComplete && !hasIncorrect
-                  ? `Anda telah menyelesaikan hafalan Surah ${surah.englishName} dengan sempurna. Semoga berkah!` 
+                {isPerfect
+                  ? `Anda telah menyelesaikan hafalan ${sessionName} dengan sempurna. Semoga berkah!` 
                   : hasIncorrect 
                     ? `Ada ${incorrectCount} kata yang terlewat. Progres: ${progressPercent}%. Coba lagi ya!`
                     : `Progres: ${progressPercent}% (${spokenWordsCount} dari ${wordStatuses.length} kata). Lanjutkan lagi kapan saja!`}
               </p>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleRetry}
-                className="gap-2 mt-4"
-              >
-                <RefreshCw className="w-4 h-4" />
-                Ulangi dari Awal
-              </Button>
+              {hintedCount > 0 && (
+                <p className="text-sky-600 dark:text-sky-400 text-sm mt-1">
+                  {hintedCount} kata dibaca dengan bantuan petunjuk. Coba lagi tanpa petunjuk ya!
+                </p>
+              )}
+              <div className="flex flex-wrap justify-center gap-2 mt-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRetry}
+                  className="gap-2"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  Ulangi dari Awal
+                </Button>
+                {savedSessionId && (
+                  <Button variant="outline" size="sm" onClick={() => navigate(`/history/${savedSessionId}`)} className="gap-2">
+                    <FileText className="w-4 h-4" />
+                    Lihat Laporan
+                  </Button>
+                )}
+                {hasIncorrect && (
+                  <Button variant="outline" size="sm" onClick={() => navigate('/mistakes')} className="gap-2">
+                    <NotebookPen className="w-4 h-4" />
+                    Catatan Kesalahan
+                  </Button>
+                )}
+                {isReview && nextReviewPath && (
+                  <Button size="sm" onClick={() => navigate(nextReviewPath)} className="gap-2">
+                    <CalendarCheck className="w-4 h-4" />
+                    {nextReviewPath === '/review' ? 'Selesai Murajaah' : 'Murajaah Berikutnya'}
+                  </Button>
+                )}
+              </div>
             </div>
           );
         })()}
@@ -674,6 +853,8 @@ const RecitePage = () => {
           <VoiceIndicator isListening={isListening} onClick={handleVoiceToggle} />
           <p className="text-xs text-muted-foreground">
             {isListening ? '🎙️ Mendengarkan...' : 'Tekan untuk mulai membaca'}
+            <span className="mx-1">·</span>
+            Mode {profile.name}
           </p>
         </div>
       </div>
@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarCheck, Play } from 'lucide-react';
+import { Header } from '@/components/Header';
+import {
+  ReviewItem,
+  ReviewPortion,
+  countUpcoming,
+  getDueItems,
+  getReviewItems,
+  getReviewSessionPath,
+  groupIntoPortions,
+  startOfDay,
+} from '@/lib/review-scheduler';
+import { formatAyahRange } from '@/lib/ayah-range';
+import { getIndonesianName } from '@/lib/surah-translations';
+import { Button } from '@/components/ui/button';
+
+const UPCOMING_DAYS = 7;
+
+function describeDue(dueAt: number): string {
+  const daysLate = Math.round((startOfDay(Date.now()) - startOfDay(dueAt)) / (24 * 60 * 60 * 1000));
+  return daysLate > 0 ? `Terlambat ${daysLate} hari` : 'Jadwal hari ini';
+}
+
+function formatDay(offset: number): string {
+  if (offset === 0) return 'Besok';
+  const date = new Date();
+  date.setDate(date.getDate() + offset + 1);
+  return date.toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'short' });
+}
+
+const ReviewPage = () => {
+  const navigate = useNavigate();
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getReviewItems()
+      .then(setItems)
+      .catch(() => setItems([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const dueItems = getDueItems(items);
+  const queue: ReviewPortion[] = groupIntoPortions(dueItems);
+  const upcoming = countUpcoming(items, UPCOMING_DAYS);
+
+  return (
+    <div className="min-h-screen bg-background islamic-pattern">
+      <Header showBack />
+
+      <main className="container py-6 pb-24 max-w-2xl space-y-6">
+        <div className="text-center fade-in">
+          <h2 className="text-2xl font-bold text-foreground mb-2">Murajaah Hari Ini</h2>
+          <p className="text-muted-foreground">
+            Ayat yang sudah pernah dibaca dijadwalkan ulang otomatis berdasarkan hasil bacaan Anda.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-12 h-12 rounded-full border-4 border-primary/20 border-t-primary animate-spin" />
+          </div>
+        ) : (
+          <>
+            <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+              {queue.length > 0 ? (
+                <>
+                  <div className="flex items-center justify-between gap-4 mb-4">
+                    <div>
+                      <p className="text-3xl font-bold text-primary">{dueItems.length}</p>
+                      <p className="text-sm text-muted-foreground">ayat dalam {queue.length} bagian</p>
+                    </div>
+                    <Button onClick={() => navigate(getReviewSessionPath(queue[0]))} className="gap-2">
+                      <Play className="w-4 h-4" />
+                      Mulai Murajaah
+                    </Button>
+                  </div>
+
+                  <div className="space-y-2">
+                    {queue.map((portion) => (
+                      <button
+                        key={`${portion.surahNumber}:${portion.range.from}`}
+                        onClick={() => navigate(getReviewSessionPath(portion))}
+                        className="card-islamic w-full rounded-xl p-3 flex items-center justify-between text-left"
+                      >
+                        <div>
+                          <p className="font-semibold text-foreground">
+                            {getIndonesianName(portion.surahNumber)} · Ayat {formatAyahRange(portion.range)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{describeDue(portion.dueAt)}</p>
+                        </div>
+                        <Play className="w-4 h-4 text-primary" />
+                      </button>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <div className="text-center py-6">
+                  <CalendarCheck className="w-10 h-10 text-success mx-auto mb-3" />
+                  <p className="font-semibold text-foreground mb-1">Tidak ada murajaah hari ini</p>
+                  <p className="text-sm text-muted-foreground">
+                    {items.length > 0
+                      ? 'Semua hafalan sudah diulang sesuai jadwal. Barakallahu fiik!'
+                      : 'Mulai hafalan dari beranda, ayat yang dibaca akan masuk jadwal murajaah.'}
+                  </p>
+                </div>
+              )}
+            </section>
+
+            {items.length > 0 && (
+              <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+                <h3 className="font-semibold text-foreground mb-3">Jadwal Berikutnya</h3>
+                <div className="space-y-2">
+                  {upcoming.map((count, offset) => (
+                    <div key={offset} className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">{formatDay(offset)}</span>
+                      <span className={count > 0 ? 'font-medium text-foreground' : 'text-muted-foreground/60'}>
+                        {count} ayat
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ReviewPage;
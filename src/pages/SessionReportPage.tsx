@@ -0,0 +1,221 @@
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { RefreshCw, Trash2, Volume2 } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { MushafView } from '@/components/MushafView';
+import { LoadErrorState } from '@/components/LoadErrorState';
+import { NotFoundError } from '@/lib/quran-errors';
+import { getRecitePath } from '@/lib/ayah-range';
+import { getSessionPath } from '@/lib/recitation-session';
+import { getIndonesianName } from '@/lib/surah-translations';
+import {
+  SessionRecord,
+  deleteSessionRecord,
+  formatDuration,
+  formatSessionDate,
+  getSessionRecord,
+  getSessionStats,
+} from '@/lib/session-history';
+import { SessionAudio, getSessionAudio, getWordPlaybackWindow } from '@/lib/session-audio';
+import { Button } from '@/components/ui/button';
+
+const SessionReportPage = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const [record, setRecord] = useState<SessionRecord | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  // Recording of the session, if one was made; tapping a word plays the audio around it
+  const [audio, setAudio] = useState<SessionAudio | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const stopAtRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    async function loadRecord() {
+      if (!sessionId) return;
+
+      try {
+        setIsLoading(true);
+        setError(null);
+        const data = await getSessionRecord(sessionId);
+        if (!data) throw new NotFoundError(`Session ${sessionId} does not exist`);
+        setRecord(data);
+      } catch (err) {
+        setError(err);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+    loadRecord();
+  }, [sessionId, reloadKey]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    getSessionAudio(sessionId).then(data => setAudio(data ?? null)).catch(() => {});
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!audio) return;
+    const url = URL.createObjectURL(audio.blob);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [audio]);
+
+  const handleWordClick = (index: number) => {
+    const player = audioRef.current;
+    const playback = record && audio ? getWordPlaybackWindow(record.wordStatuses[index], audio) : null;
+    if (!player || !playback) return;
+
+    stopAtRef.current = playback.end;
+    player.currentTime = playback.start;
+    player.play().catch(() => {});
+  };
+
+  // Stop at the end of a word's window; playing with the controls runs to the end
+  const handleTimeUpdate = () => {
+    const player = audioRef.current;
+    if (!player || stopAtRef.current === null || player.currentTime < stopAtRef.current) return;
+
+    stopAtRef.current = null;
+    player.pause();
+  };
+
+  const handleDelete = async () => {
+    if (!record) return;
+    try {
+      setDeleteError(null);
+      await deleteSessionRecord(record.id);
+      navigate('/history', { replace: true });
+    } catch {
+      setDeleteError('Gagal menghapus sesi. Penyimpanan browser tidak bisa diakses, coba lagi nanti.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background islamic-pattern">
+        <Header showBack />
+        <div className="flex justify-center py-32">
+          <div className="w-16 h-16 rounded-full border-4 border-primary/20 border-t-primary animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !record) {
+    return (
+      <div className="min-h-screen bg-background islamic-pattern">
+        <Header showBack minimalMode />
+        <div className="py-12">
+          <LoadErrorState
+            error={error}
+            onRetry={() => setReloadKey(k => k + 1)}
+            notFoundMessage="Sesi ini tidak ditemukan. Mungkin sudah dihapus dari riwayat."
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const stats = getSessionStats(record);
+  const retryPath = record.kind === 'surah' && record.range
+    ? getRecitePath(record.number, record.range)
+    : getSessionPath(record.kind, record.number);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header showBack />
+
+      <main className="container py-6 pb-24 space-y-6">
+        <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+          <h2 className="text-xl font-bold text-foreground">{record.title}</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            {formatSessionDate(record.startedAt)} · Mode {record.profileName}
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="rounded-xl bg-secondary/50 p-3">
+              <p className="text-xs text-muted-foreground">Ketepatan</p>
+              <p className="text-xl font-bold text-primary">{stats.accuracy}%</p>
+            </div>
+            <div className="rounded-xl bg-secondary/50 p-3">
+              <p className="text-xs text-muted-foreground">Durasi</p>
+              <p className="text-xl font-bold text-foreground">{formatDuration(record.durationMs)}</p>
+            </div>
+            <div className="rounded-xl bg-secondary/50 p-3">
+              <p className="text-xs text-muted-foreground">Kata dibaca</p>
+              <p className="text-xl font-bold text-foreground">{stats.recitedWords}/{stats.totalWords}</p>
+            </div>
+            <div className="rounded-xl bg-secondary/50 p-3">
+              <p className="text-xs text-muted-foreground">Kata terlewat</p>
+              <p className="text-xl font-bold text-amber-500">{stats.skippedWords}</p>
+            </div>
+          </div>
+
+          {(record.skippedAyahs.length > 0 || stats.hintedWords > 0) && (
+            <div className="mt-4 space-y-1 text-sm">
+              {record.skippedAyahs.length > 0 && (
+                <p className="text-amber-600">
+                  Ayat terlewat:{' '}
+                  {record.skippedAyahs
+                    .map(a => `${getIndonesianName(a.surahNumber)} ${a.ayahNumber}`)
+                    .join(', ')}
+                </p>
+              )}
+              {stats.hintedWords > 0 && (
+                <p className="text-sky-600 dark:text-sky-400">{stats.hintedWords} kata dibaca dengan bantuan petunjuk</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2 mt-4">
+            <Button size="sm" onClick={() => navigate(retryPath)} className="gap-2">
+              <RefreshCw className="w-4 h-4" />
+              Ulangi Sesi Ini
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleDelete} className="gap-2 text-destructive">
+              <Trash2 className="w-4 h-4" />
+              Hapus
+            </Button>
+          </div>
+          {deleteError && <p className="text-sm text-destructive mt-3">{deleteError}</p>}
+        </section>
+
+        {audioUrl && (
+          <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+            <h3 className="flex items-center gap-2 font-semibold text-foreground mb-1">
+              <Volume2 className="w-4 h-4 text-primary" />
+              Rekaman Bacaan
+            </h3>
+            <p className="text-sm text-muted-foreground mb-3">Ketuk sebuah kata untuk mendengar bacaannya.</p>
+            <audio
+              ref={audioRef}
+              src={audioUrl}
+              controls
+              className="w-full"
+              onTimeUpdate={handleTimeUpdate}
+              onPause={() => {
+                stopAtRef.current = null;
+              }}
+            />
+          </section>
+        )}
+
+        <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in" dir="rtl">
+          <MushafView
+            wordStatuses={record.wordStatuses}
+            surahNames={record.surahNames}
+            displayMode="read-along"
+            onWordClick={audioUrl ? handleWordClick : undefined}
+          />
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default SessionReportPage;
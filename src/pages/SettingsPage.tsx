@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { Header } from '@/components/Header';
+import { OfflineDataCard } from '@/components/OfflineDataCard';
+import { DataSourceCard } from '@/components/DataSourceCard';
+import { RecognizerCard } from '@/components/RecognizerCard';
+import { useStrictnessProfile } from '@/hooks/useStrictnessProfile';
+import { MatcherThresholds } from '@/lib/recitation-tracker';
+import { STRICTNESS_PROFILES, StrictnessProfileId } from '@/lib/strictness-profiles';
+import { CONFUSABLE_LETTERS } from '@/lib/arabic-similarity';
+import { loadHintDelaySeconds, saveHintDelaySeconds } from '@/lib/hints';
+import { isAudioRecordingSupported, loadRecordAudioEnabled, saveRecordAudioEnabled } from '@/lib/session-audio';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+
+const THRESHOLD_FIELDS: { key: keyof MatcherThresholds; label: string; min: number; max: number }[] = [
+  { key: 'currentMatch', label: 'Kemiripan kata (dalam ayat)', min: 10, max: 100 },
+  { key: 'ayahStartMatch', label: 'Kemiripan kata awal ayat', min: 10, max: 100 },
+  { key: 'shortWordBoost', label: 'Tambahan untuk kata pendek', min: 0, max: 40 },
+  { key: 'maxCurrentMatch', label: 'Batas maksimum kemiripan', min: 50, max: 100 },
+  { key: 'startConfirm', label: 'Konfirmasi kata kedua awal ayat', min: 0, max: 100 },
+  { key: 'skipDetectSameAyah', label: 'Deteksi lompat (ayat sama)', min: 50, max: 100 },
+  { key: 'skipDetectNextAyah', label: 'Deteksi lompat (ayat berikutnya)', min: 50, max: 100 },
+  { key: 'skipConfirmSameAyah', label: 'Konfirmasi lompat (ayat sama)', min: 30, max: 100 },
+  { key: 'skipConfirmNextAyah', label: 'Konfirmasi lompat (ayat berikutnya)', min: 30, max: 100 },
+  { key: 'skipMinLengthSameAyah', label: 'Panjang minimum kata lompat (ayat sama)', min: 1, max: 8 },
+  { key: 'skipMinLengthNextAyah', label: 'Panjang minimum kata lompat (ayat berikutnya)', min: 1, max: 8 },
+  { key: 'skipConfirmShortWordBoost', label: 'Tambahan konfirmasi lompat untuk kata pendek', min: 0, max: 30 },
+  { key: 'maxSkipConfirm', label: 'Batas maksimum konfirmasi lompat', min: 50, max: 100 },
+  { key: 'longJumpMaxAyahsAhead', label: 'Maksimum ayat yang bisa dilompati', min: 2, max: 30 },
+  { key: 'longJumpDetect', label: 'Deteksi lompat jauh', min: 50, max: 100 },
+  { key: 'longJumpConfirm', label: 'Konfirmasi lompat jauh', min: 30, max: 100 },
+  { key: 'longJumpMinLength', label: 'Panjang minimum kata lompat jauh', min: 1, max: 8 },
+];
+
+const SettingsPage = () => {
+  const {
+    profile,
+    selectProfile,
+    updateCustomThresholds,
+    similarityWeights,
+    updateSimilarityWeights,
+  } = useStrictnessProfile();
+  const [hintDelay, setHintDelay] = useState(loadHintDelaySeconds);
+  const [recordAudio, setRecordAudio] = useState(loadRecordAudioEnabled);
+
+  const handleHintDelayChange = (seconds: number) => {
+    setHintDelay(seconds);
+    saveHintDelaySeconds(seconds);
+  };
+
+  const handleRecordAudioChange = (enabled: boolean) => {
+    setRecordAudio(enabled);
+    saveRecordAudioEnabled(enabled);
+  };
+
+  const handleThresholdChange = (key: keyof MatcherThresholds, value: number) => {
+    updateCustomThresholds({ ...profile.thresholds, [key]: value });
+  };
+
+  return (
+    <div className="min-h-screen bg-background islamic-pattern">
+      <Header title="Pengaturan" showBack minimalMode />
+
+      <main className="container py-6 pb-24 space-y-6">
+        {/* Strictness Profiles */}
+        <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+          <h2 className="text-lg font-semibold text-foreground mb-1">Tingkat Ketelitian</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Atur seberapa ketat bacaan Anda dicocokkan dengan teks Al-Qur'an.
+          </p>
+
+          <RadioGroup
+            value={profile.id}
+            onValueChange={(value) => selectProfile(value as StrictnessProfileId)}
+          >
+            {STRICTNESS_PROFILES.map((p) => (
+              <Label
+                key={p.id}
+                htmlFor={`profile-${p.id}`}
+                className={cn(
+                  'flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors',
+                  profile.id === p.id ? 'border-primary bg-primary/5' : 'border-border'
+                )}
+              >
+                <RadioGroupItem value={p.id} id={`profile-${p.id}`} className="mt-1" />
+                <span>
+                  <span className="block font-semibold text-foreground">{p.name}</span>
+                  <span className="block text-sm font-normal text-muted-foreground">{p.description}</span>
+                </span>
+              </Label>
+            ))}
+            <Label
+              htmlFor="profile-custom"
+              className={cn(
+                'flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors',
+                profile.id === 'custom' ? 'border-primary bg-primary/5' : 'border-border'
+              )}
+            >
+              <RadioGroupItem value="custom" id="profile-custom" className="mt-1" />
+              <span>
+                <span className="block font-semibold text-foreground">Kustom</span>
+                <span className="block text-sm font-normal text-muted-foreground">
+                  Ubah salah satu nilai di bawah untuk membuat profil sendiri.
+                </span>
+              </span>
+            </Label>
+          </RadioGroup>
+        </section>
+
+        {/* Custom Profile Editor */}
+        <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+          <h2 className="text-lg font-semibold text-foreground mb-1">Ambang Batas</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Nilai aktif untuk profil {profile.name}. Semakin tinggi nilainya, semakin ketat pencocokan.
+          </p>
+
+          <div className="space-y-5">
+            {THRESHOLD_FIELDS.map((field) => (
+              <div key={field.key}>
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-sm">{field.label}</Label>
+                  <span className="text-sm font-semibold text-primary">{profile.thresholds[field.key]}</span>
+                </div>
+                <Slider
+                  min={field.min}
+                  max={field.max}
+                  step={1}
+                  value={[profile.thresholds[field.key]]}
+                  onValueChange={([value]) => handleThresholdChange(field.key, value)}
+                />
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Confusable Letters */}
+        <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+          <h2 className="text-lg font-semibold text-foreground mb-1">Huruf yang Sering Tertukar</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Pengenalan suara sering menukar huruf yang mirip (misalnya ص dan س). Atur seberapa besar
+            pertukaran ini dianggap sebagai kesalahan.
+          </p>
+
+          <div className="flex items-center justify-between mb-2">
+            <Label className="text-sm">Bobot kesalahan huruf mirip</Label>
+            <span className="text-sm font-semibold text-primary">
+              {Math.round(similarityWeights.confusableScale * 100)}%
+            </span>
+          </div>
+          <Slider
+            min={0}
+            max={300}
+            step={10}
+            value={[Math.round(similarityWeights.confusableScale * 100)]}
+            onValueChange={([value]) =>
+              updateSimilarityWeights({ ...similarityWeights, confusableScale: value / 100 })
+            }
+          />
+
+          <div className="flex flex-wrap gap-2 mt-4" dir="rtl">
+            {CONFUSABLE_LETTERS.map(([a, b]) => (
+              <span
+                key={a + b}
+                className="font-arabic text-lg px-2 py-0.5 rounded-lg bg-secondary text-secondary-foreground"
+              >
+                {a} / {b}
+              </span>
+            ))}
+          </div>
+        </section>
+
+        {/* Hints */}
+        <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+          <h2 className="text-lg font-semibold text-foreground mb-1">Petunjuk Hafalan</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Saat Anda terdiam, petunjuk kata berikutnya muncul bertahap: huruf pertama, lalu satu kata,
+            lalu dua kata. Kata yang dibantu petunjuk tidak dihitung sempurna.
+          </p>
+
+          <div className="flex items-center justify-between mb-2">
+            <Label className="text-sm">Petunjuk otomatis setelah hening</Label>
+            <span className="text-sm font-semibold text-primary">
+              {hintDelay === 0 ? 'Mati' : `${hintDelay} detik`}
+            </span>
+          </div>
+          <Slider
+            min={0}
+            max={20}
+            step={1}
+            value={[hintDelay]}
+            onValueChange={([value]) => handleHintDelayChange(value)}
+          />
+        </section>
+
+        {/* Session audio */}
+        {isAudioRecordingSupported() && (
+          <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+            <h2 className="text-lg font-semibold text-foreground mb-1">Rekaman Audio</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Simpan rekaman setiap sesi di perangkat ini. Di laporan sesi, ketuk sebuah kata untuk mendengar
+              bagaimana kata itu dibaca. Rekaman memakai ruang penyimpanan, jadi fitur ini tidak aktif sampai Anda
+              menyalakannya.
+            </p>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="record-audio" className="text-sm">Rekam bacaan saat sesi berjalan</Label>
+              <Switch id="record-audio" checked={recordAudio} onCheckedChange={handleRecordAudioChange} />
+            </div>
+          </section>
+        )}
+
+        <OfflineDataCard />
+
+        <DataSourceCard />
+
+        <RecognizerCard />
+      </main>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,211 @@
+import { useState, useEffect, useMemo, ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { BarChart3 } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { DateRangeFilter } from '@/components/DateRangeFilter';
+import { fetchAllSurahs } from '@/lib/quran-api';
+import { countAyahsPerJuz } from '@/lib/quran-meta';
+import { SessionRecord, listSessionRecords } from '@/lib/session-history';
+import {
+  StatsDateRange,
+  filterSessionsByRange,
+  getAccuracyTrend,
+  getJuzCoverage,
+  getMemorizedOverTime,
+  getMinutesPerDay,
+  getMostMissedAyahs,
+  lastDays,
+} from '@/lib/session-stats';
+import { getRecitePath } from '@/lib/ayah-range';
+import { getIndonesianName } from '@/lib/surah-translations';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+
+const minutesConfig = {
+  minutes: { label: 'Menit', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const memorizedConfig = {
+  ayahs: { label: 'Ayat dihafal', color: 'hsl(var(--success))' },
+} satisfies ChartConfig;
+
+const accuracyConfig = {
+  accuracy: { label: 'Ketepatan (%)', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const coverageConfig = {
+  percent: { label: 'Dihafal (%)', color: 'hsl(var(--success))' },
+} satisfies ChartConfig;
+
+function StatsSection({ title, description, children }: { title: string; description?: string; children: ReactNode }) {
+  return (
+    <section className="bg-card rounded-2xl border border-border p-4 md:p-6 fade-in">
+      <h3 className="font-semibold text-foreground">{title}</h3>
+      {description && <p className="text-sm text-muted-foreground mb-4">{description}</p>}
+      {!description && <div className="mb-4" />}
+      {children}
+    </section>
+  );
+}
+
+const StatsPage = () => {
+  const navigate = useNavigate();
+  const [records, setRecords] = useState<SessionRecord[]>([]);
+  const [ayahsPerJuz, setAyahsPerJuz] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [range, setRange] = useState<StatsDateRange>(() => lastDays(30));
+
+  useEffect(() => {
+    listSessionRecords()
+      .then(setRecords)
+      .catch(() => setRecords([]))
+      .finally(() => setIsLoading(false));
+
+    // Juz sizes need the ayah count of every surah; coverage is simply hidden without them
+    fetchAllSurahs()
+      .then(surahs => setAyahsPerJuz(countAyahsPerJuz(surahs)))
+      .catch(() => {});
+  }, []);
+
+  const inRange = useMemo(() => filterSessionsByRange(records, range), [records, range]);
+  const minutesPerDay = useMemo(() => getMinutesPerDay(inRange, range), [inRange, range]);
+  const memorizedOverTime = useMemo(() => getMemorizedOverTime(records, range), [records, range]);
+  const accuracyTrend = useMemo(() => getAccuracyTrend(inRange), [inRange]);
+  const mostMissed = useMemo(() => getMostMissedAyahs(inRange), [inRange]);
+  // Coverage is everything memorized so far, so the date range does not apply
+  const juzCoverage = useMemo(() => getJuzCoverage(records, ayahsPerJuz), [records, ayahsPerJuz]);
+
+  const totalMinutes = Math.round(minutesPerDay.reduce((sum, d) => sum + d.minutes, 0));
+  const earliest = records.length > 0 ? new Date(records[records.length - 1].startedAt) : undefined;
+
+  return (
+    <div className="min-h-screen bg-background islamic-pattern">
+      <Header showBack />
+
+      <main className="container py-6 pb-24 max-w-3xl space-y-6">
+        <div className="text-center fade-in">
+          <h2 className="text-2xl font-bold text-foreground mb-2">Statistik Hafalan</h2>
+          <p className="text-muted-foreground mb-4">Dihitung dari riwayat sesi yang tersimpan di perangkat ini.</p>
+          <DateRangeFilter value={range} onChange={setRange} earliest={earliest} />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-12 h-12 rounded-full border-4 border-primary/20 border-t-primary animate-spin" />
+          </div>
+        ) : inRange.length === 0 ? (
+          <div className="text-center py-12 bg-card rounded-2xl border border-border">
+            <BarChart3 className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">Belum ada sesi hafalan pada rentang tanggal ini.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-card rounded-2xl border border-border p-4 text-center">
+                <p className="text-2xl font-bold text-primary">{inRange.length}</p>
+                <p className="text-xs text-muted-foreground">Sesi</p>
+              </div>
+              <div className="bg-card rounded-2xl border border-border p-4 text-center">
+                <p className="text-2xl font-bold text-primary">{totalMinutes}</p>
+                <p className="text-xs text-muted-foreground">Menit</p>
+              </div>
+              <div className="bg-card rounded-2xl border border-border p-4 text-center">
+                <p className="text-2xl font-bold text-success">
+                  {memorizedOverTime[memorizedOverTime.length - 1]?.ayahs ?? 0}
+                </p>
+                <p className="text-xs text-muted-foreground">Ayat dihafal</p>
+              </div>
+            </div>
+
+            <StatsSection title="Menit Membaca per Hari">
+              <ChartContainer config={minutesConfig} className="h-56 w-full aspect-auto">
+                <BarChart data={minutesPerDay}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </StatsSection>
+
+            <StatsSection
+              title="Ayat Dihafal"
+              description="Jumlah ayat berbeda yang pernah dibaca sempurna, termasuk sebelum rentang tanggal."
+            >
+              <ChartContainer config={memorizedConfig} className="h-56 w-full aspect-auto">
+                <AreaChart data={memorizedOverTime}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Area
+                    dataKey="ayahs"
+                    type="stepAfter"
+                    fill="var(--color-ayahs)"
+                    fillOpacity={0.2}
+                    stroke="var(--color-ayahs)"
+                  />
+                </AreaChart>
+              </ChartContainer>
+            </StatsSection>
+
+            <StatsSection title="Tren Ketepatan" description="Persentase kata yang dibaca benar pada hari dengan sesi.">
+              <ChartContainer config={accuracyConfig} className="h-56 w-full aspect-auto">
+                <LineChart data={accuracyTrend}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line dataKey="accuracy" stroke="var(--color-accuracy)" strokeWidth={2} dot={{ r: 3 }} />
+                </LineChart>
+              </ChartContainer>
+            </StatsSection>
+
+            <StatsSection title="Ayat Paling Sering Terlewat">
+              {mostMissed.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Tidak ada kata yang terlewat. MasyaAllah!</p>
+              ) : (
+                <div className="space-y-2">
+                  {mostMissed.map((ayah) => (
+                    <button
+                      key={`${ayah.surahNumber}:${ayah.ayahNumber}`}
+                      onClick={() => navigate(getRecitePath(ayah.surahNumber, { from: ayah.ayahNumber, to: ayah.ayahNumber }))}
+                      className="w-full flex items-center justify-between rounded-xl bg-secondary/50 hover:bg-secondary px-3 py-2 text-left transition-colors"
+                    >
+                      <span className="text-sm font-medium text-foreground">
+                        {getIndonesianName(ayah.surahNumber)} · Ayat {ayah.ayahNumber}
+                      </span>
+                      <span className="text-xs text-amber-600">
+                        {ayah.missedWords} kata · {ayah.sessions} sesi
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </StatsSection>
+
+            {ayahsPerJuz.length > 0 && (
+              <StatsSection
+                title="Cakupan Hafalan per Juz"
+                description="Dihitung dari semua sesi, tidak terbatas pada rentang tanggal."
+              >
+                <ChartContainer config={coverageConfig} className="h-56 w-full aspect-auto">
+                  <BarChart data={juzCoverage}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="juz" tickLine={false} axisLine={false} interval={0} fontSize={10} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Juz ${payload[0]?.payload.juz}`} />} />
+                    <Bar dataKey="percent" fill="var(--color-percent)" radius={3} />
+                  </BarChart>
+                </ChartContainer>
+              </StatsSection>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default StatsPage;
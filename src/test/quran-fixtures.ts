@@ -0,0 +1,43 @@
+import type { SectionAyah, Surah } from '@/lib/quran-api';
+
+// Shared Quran data for the vitest suites
+
+export const AL_FATIHAH: Surah = {
+  number: 1,
+  name: 'سُورَةُ ٱلْفَاتِحَةِ',
+  englishName: 'Al-Faatiha',
+  englishNameTranslation: 'The Opening',
+  numberOfAyahs: 7,
+  revelationType: 'Meccan',
+};
+
+// Al-Fatihah without harakat; enough for the matcher
+export const FATIHAH_TEXTS = [
+  'بسم الله الرحمن الرحيم',
+  'الحمد لله رب العالمين',
+  'الرحمن الرحيم',
+  'مالك يوم الدين',
+  'اياك نعبد واياك نستعين',
+  'اهدنا الصراط المستقيم',
+  'صراط الذين انعمت عليهم غير المغضوب عليهم ولا الضالين',
+];
+
+// An ayah as a page listing returns it; the mushaf position fields are not used by the tests
+export function makeAyah(surah: Surah, numberInSurah: number, text: string): SectionAyah {
+  return {
+    number: numberInSurah,
+    text,
+    numberInSurah,
+    juz: 1,
+    manzil: 1,
+    page: 1,
+    ruku: 1,
+    hizbQuarter: 1,
+    surah,
+  };
+}
+
+// Ayahs `from`..`to` of Al-Fatihah
+export function fatihahAyahs(from = 1, to = FATIHAH_TEXTS.length): SectionAyah[] {
+  return FATIHAH_TEXTS.slice(from - 1, to).map((text, i) => makeAyah(AL_FATIHAH, from + i, text));
+}
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_QURAN_PROVIDER?: string;
+  readonly VITE_QURAN_BASE_URL?: string;
+  readonly VITE_ASR_ENGINE?: string;
+  readonly VITE_ASR_URL?: string;
+}